@@ -2,6 +2,7 @@ import Link from "next/link"
 import Image from "next/image"
 import { Headphones, Github, Twitter, Linkedin, Mail } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { effectRegistry } from "@/lib/effects"
 
 export default function AboutPage() {
   return (
@@ -47,7 +48,7 @@ export default function AboutPage() {
             </p>
             <p className="text-white/80 mb-4">
               We believe that audio transformation should be available to everyone, regardless of technical expertise or
-              budget constraints. Our platform offers 50 unique audio effects that can transform any sound into
+              budget constraints. Our platform offers {effectRegistry.length} unique audio effects that can transform any sound into
               something magical.
             </p>
             <p className="text-white/80">
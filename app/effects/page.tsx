@@ -1,6 +1,7 @@
 import Link from "next/link"
 import { Headphones } from "lucide-react"
 import EffectsGrid from "@/components/effects-grid"
+import { effectRegistry } from "@/lib/effects"
 
 export default function EffectsPage() {
   return (
@@ -33,7 +34,7 @@ export default function EffectsPage() {
             </span>
           </h1>
           <p className="text-xl text-white/80 max-w-2xl mx-auto">
-            Explore our collection of 50 professional audio effects to transform your sound.
+            Explore our collection of {effectRegistry.length} professional audio effects to transform your sound.
           </p>
         </div>
 
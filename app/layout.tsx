@@ -4,6 +4,7 @@ import { Inter } from "next/font/google"
 import "./globals.css"
 import { ThemeProvider } from "@/components/theme-provider"
 import { AudioProvider } from "@/context/audio-context"
+import { HistoryProvider } from "@/context/history-context"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -22,7 +23,9 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
-          <AudioProvider>{children}</AudioProvider>
+          <HistoryProvider>
+            <AudioProvider>{children}</AudioProvider>
+          </HistoryProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -3,6 +3,11 @@ import { Headphones } from "lucide-react"
 import HeroSection from "@/components/hero-section"
 import EffectsGrid from "@/components/effects-grid"
 import AudioPlayer from "@/components/audio-player"
+import EffectChain from "@/components/effect-chain"
+import HistoryPanel from "@/components/history-panel"
+import PresetBrowser from "@/components/preset-browser"
+import SharedChainLink from "@/components/shared-chain"
+import Spectrogram from "@/components/spectrogram"
 import UploadSection from "@/components/upload-section"
 
 export default function Home() {
@@ -31,8 +36,19 @@ export default function Home() {
       <HeroSection />
 
       <div className="container mx-auto px-4 py-12">
+        <SharedChainLink />
         <UploadSection />
-        <AudioPlayer />
+        <div className="grid lg:grid-cols-3 gap-8 mb-12">
+          <div className="lg:col-span-2">
+            <AudioPlayer />
+          </div>
+          <div className="flex flex-col gap-8">
+            <EffectChain />
+            <PresetBrowser />
+            <HistoryPanel />
+          </div>
+        </div>
+        <Spectrogram />
         <EffectsGrid />
       </div>
 
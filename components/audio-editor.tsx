@@ -0,0 +1,265 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { ClipboardPaste, Copy, Crop, Rewind, Scissors } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { WaveformSelection } from "@/components/waveform"
+import { useAudioContext } from "@/context/audio-context"
+import {
+  copyRange,
+  deleteRange,
+  fadeRange,
+  FADE_CURVES,
+  gainRange,
+  insertSilence,
+  normalizeRange,
+  pasteClip,
+  reverseRange,
+  reverseReverbRange,
+  trimToRange,
+  type EditResult,
+  type FadeCurve,
+} from "@/lib/audio/edit"
+
+type AudioEditorProps = {
+  selection: WaveformSelection | null
+  onSelectionChange: (selection: WaveformSelection | null) => void
+}
+
+function FrameInput({
+  label,
+  value,
+  max,
+  onCommit,
+}: {
+  label: string
+  value: number
+  max: number
+  onCommit: (frame: number) => void
+}) {
+  const [text, setText] = useState(String(value))
+
+  useEffect(() => {
+    setText(String(value))
+  }, [value])
+
+  const commit = () => {
+    const frame = Number.parseInt(text, 10)
+    if (Number.isFinite(frame)) onCommit(Math.min(max, Math.max(0, frame)))
+    else setText(String(value))
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-purple-200">
+      {label}
+      <Input
+        className="h-8 w-28 bg-purple-900/40 border-purple-700 text-white text-xs tabular-nums"
+        inputMode="numeric"
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") commit()
+        }}
+      />
+    </label>
+  )
+}
+
+function EditButton({ children, ...props }: React.ComponentProps<typeof Button>) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="h-8 text-purple-200 border-purple-600 bg-transparent hover:bg-purple-800/50"
+      {...props}
+    >
+      {children}
+    </Button>
+  )
+}
+
+// Destructive edits on the decoded audio. Selections are handled in whole sample frames.
+export default function AudioEditor({ selection, onSelectionChange }: AudioEditorProps) {
+  const { audioBuffer, applyEdit, getPlaybackTime } = useAudioContext()
+  const [clipboard, setClipboard] = useState<AudioBuffer | null>(null)
+  const [fadeCurve, setFadeCurve] = useState<FadeCurve>("linear")
+  const [silenceSeconds, setSilenceSeconds] = useState("1")
+  const [gainDecibels, setGainDecibels] = useState("-3")
+  const [reverbSeconds, setReverbSeconds] = useState("2")
+
+  if (!audioBuffer) return null
+
+  const sampleRate = audioBuffer.sampleRate
+  const toFrame = (time: number) => Math.round(time * sampleRate)
+  const startFrame = selection ? toFrame(selection.start) : null
+  const endFrame = selection ? toFrame(selection.end) : null
+  const hasSelection = startFrame !== null && endFrame !== null && endFrame > startFrame
+
+  // Whole-file operations fall back to every frame when nothing is selected
+  const rangeOrAll = (): [number, number] =>
+    hasSelection ? [startFrame!, endFrame!] : [0, audioBuffer.length]
+
+  const run = (label: string, edit: () => EditResult, nextSelection: WaveformSelection | null = null) => {
+    try {
+      applyEdit(edit(), label)
+      onSelectionChange(nextSelection)
+    } catch (error) {
+      console.error("Error editing audio:", error)
+    }
+  }
+
+  const setFrames = (start: number, end: number) => {
+    onSelectionChange({ start: Math.min(start, end) / sampleRate, end: Math.max(start, end) / sampleRate })
+  }
+
+  const handleCut = () => {
+    if (!hasSelection) return
+    setClipboard(copyRange(audioBuffer, startFrame!, endFrame!))
+    run("Cut", () => deleteRange(audioBuffer, startFrame!, endFrame!))
+  }
+
+  // Pastes over the selection, or at the playhead without one
+  const handlePaste = () => {
+    if (!clipboard) return
+    const at = hasSelection ? startFrame! : toFrame(getPlaybackTime())
+    const pasted = { start: at / sampleRate, end: (at + clipboard.length) / sampleRate }
+    run("Paste", () => pasteClip(audioBuffer, clipboard, at, hasSelection ? endFrame! : at), pasted)
+  }
+
+  const handleInsertSilence = () => {
+    const seconds = Number.parseFloat(silenceSeconds)
+    if (!Number.isFinite(seconds) || seconds <= 0) return
+    const at = hasSelection ? startFrame! : toFrame(getPlaybackTime())
+    run("Insert silence", () => insertSilence(audioBuffer, at, seconds * sampleRate))
+  }
+
+  const handleGain = () => {
+    const decibels = Number.parseFloat(gainDecibels)
+    if (!Number.isFinite(decibels)) return
+    const label = `Gain ${decibels > 0 ? "+" : ""}${decibels} dB`
+    run(label, () => gainRange(audioBuffer, ...rangeOrAll(), decibels), selection)
+  }
+
+  const handleReverseReverb = () => {
+    const seconds = Number.parseFloat(reverbSeconds)
+    if (!Number.isFinite(seconds) || seconds <= 0) return
+    run("Reverse reverb", () => reverseReverbRange(audioBuffer, ...rangeOrAll(), seconds), selection)
+  }
+
+  return (
+    <div className="grid gap-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        {hasSelection ? (
+          <>
+            <FrameInput
+              label="Start"
+              value={startFrame!}
+              max={audioBuffer.length}
+              onCommit={(frame) => setFrames(frame, endFrame!)}
+            />
+            <FrameInput
+              label="End"
+              value={endFrame!}
+              max={audioBuffer.length}
+              onCommit={(frame) => setFrames(startFrame!, frame)}
+            />
+            <span className="text-purple-400 tabular-nums">
+              {endFrame! - startFrame!} samples at {sampleRate} Hz
+            </span>
+          </>
+        ) : (
+          <span className="text-purple-400">
+            Drag over the waveform to select. Without a selection, edits use the playhead or the whole file.
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <EditButton
+          disabled={!hasSelection}
+          onClick={() => run("Trim", () => trimToRange(audioBuffer, startFrame!, endFrame!))}
+        >
+          <Crop className="h-4 w-4 mr-1" /> Trim
+        </EditButton>
+        <EditButton disabled={!hasSelection} onClick={handleCut}>
+          <Scissors className="h-4 w-4 mr-1" /> Cut
+        </EditButton>
+        <EditButton
+          disabled={!hasSelection}
+          onClick={() => setClipboard(copyRange(audioBuffer, startFrame!, endFrame!))}
+        >
+          <Copy className="h-4 w-4 mr-1" /> Copy
+        </EditButton>
+        <EditButton disabled={!clipboard} onClick={handlePaste}>
+          <ClipboardPaste className="h-4 w-4 mr-1" /> Paste
+        </EditButton>
+        <EditButton onClick={() => run("Normalize", () => normalizeRange(audioBuffer, ...rangeOrAll()), selection)}>
+          Normalize
+        </EditButton>
+        <EditButton onClick={() => run("Reverse", () => reverseRange(audioBuffer, ...rangeOrAll()), selection)}>
+          <Rewind className="h-4 w-4 mr-1" /> Reverse
+        </EditButton>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={fadeCurve} onValueChange={(value) => setFadeCurve(value as FadeCurve)}>
+          <SelectTrigger className="h-8 w-36 bg-purple-900/40 border-purple-700 text-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FADE_CURVES.map((curve) => (
+              <SelectItem key={curve.value} value={curve.value}>
+                {curve.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <EditButton
+          disabled={!hasSelection}
+          onClick={() =>
+            run("Fade in", () => fadeRange(audioBuffer, startFrame!, endFrame!, "in", fadeCurve), selection)
+          }
+        >
+          Fade in
+        </EditButton>
+        <EditButton
+          disabled={!hasSelection}
+          onClick={() =>
+            run("Fade out", () => fadeRange(audioBuffer, startFrame!, endFrame!, "out", fadeCurve), selection)
+          }
+        >
+          Fade out
+        </EditButton>
+
+        <Input
+          className="h-8 w-16 bg-purple-900/40 border-purple-700 text-white text-xs ml-2"
+          inputMode="decimal"
+          value={silenceSeconds}
+          onChange={(event) => setSilenceSeconds(event.target.value)}
+        />
+        <EditButton onClick={handleInsertSilence}>Insert silence (s)</EditButton>
+
+        <Input
+          className="h-8 w-16 bg-purple-900/40 border-purple-700 text-white text-xs ml-2"
+          inputMode="decimal"
+          value={gainDecibels}
+          onChange={(event) => setGainDecibels(event.target.value)}
+        />
+        <EditButton onClick={handleGain}>Gain (dB)</EditButton>
+
+        <Input
+          className="h-8 w-16 bg-purple-900/40 border-purple-700 text-white text-xs ml-2"
+          inputMode="decimal"
+          value={reverbSeconds}
+          onChange={(event) => setReverbSeconds(event.target.value)}
+        />
+        <EditButton onClick={handleReverseReverb}>Reverse reverb (s)</EditButton>
+      </div>
+    </div>
+  )
+}
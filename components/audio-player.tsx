@@ -1,121 +1,48 @@
 "use client"
 
-import { useRef, useEffect } from "react"
+import { useEffect, useState } from "react"
 import { motion } from "framer-motion"
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Download } from "lucide-react"
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Download, Scissors } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
+import { Progress } from "@/components/ui/progress"
+import AudioEditor from "@/components/audio-editor"
+import ExportDialog from "@/components/export-dialog"
+import RegionOverview from "@/components/region-overview"
+import SpectrumVisualizer from "@/components/spectrum-visualizer"
+import Waveform, { type WaveformSelection } from "@/components/waveform"
 import { useAudioContext } from "@/context/audio-context"
 
 export default function AudioPlayer() {
   const {
+    audioFile,
     audioUrl,
     isPlaying,
     togglePlay,
     currentTime,
     duration,
     setCurrentTime,
+    playbackRate,
     volume,
     setVolume,
     isMuted,
     toggleMute,
-    activeEffects,
-    downloadProcessedAudio,
+    exportProgress,
   } = useAudioContext()
+  const [editMode, setEditMode] = useState(false)
+  const [selection, setSelection] = useState<WaveformSelection | null>(null)
 
-  const canvasRef = useRef<HTMLCanvasElement | null>(null)
-  const animationRef = useRef<number | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null)
-
-  // Set up audio visualization
-  useEffect(() => {
-    if (!canvasRef.current || !audioUrl) return
-
-    const canvas = canvasRef.current
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx) return
-
-    // Set up canvas
-    canvas.width = canvas.clientWidth * window.devicePixelRatio
-    canvas.height = canvas.clientHeight * window.devicePixelRatio
-
-    // Create a separate audio context just for visualization
-    if (!audioContextRef.current) {
-      try {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-      } catch (error) {
-        console.error("Error creating audio context for visualization:", error)
-        return
-      }
-    }
-
-    // Create analyser node
-    if (!analyserRef.current) {
-      analyserRef.current = audioContextRef.current.createAnalyser()
-      analyserRef.current.fftSize = 256
-    }
-
-    const analyser = analyserRef.current
-    const bufferLength = analyser.frequencyBinCount
-    const dataArray = new Uint8Array(bufferLength)
-
-    // Simulate audio data for visualization
-    const draw = () => {
-      animationRef.current = requestAnimationFrame(draw)
-
-      // Generate random data for visualization when no audio is playing
-      for (let i = 0; i < bufferLength; i++) {
-        // If playing, create more active visualization
-        if (isPlaying) {
-          dataArray[i] = Math.random() * 150 + 50
-        } else {
-          dataArray[i] = Math.random() * 50 + 10
-        }
-      }
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-      const barWidth = (canvas.width / bufferLength) * 2.5
-      let x = 0
-
-      for (let i = 0; i < bufferLength; i++) {
-        const barHeight = (dataArray[i] / 255) * canvas.height
-
-        const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height)
-        gradient.addColorStop(0, "#a855f7")
-        gradient.addColorStop(1, "#ec4899")
-
-        ctx.fillStyle = gradient
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight)
-
-        x += barWidth + 1
-      }
-    }
-
-    draw()
-
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
-    }
-  }, [audioUrl, isPlaying])
-
-  // Clean up on unmount
   useEffect(() => {
-    return () => {
-      if (audioContextRef.current && audioContextRef.current.state !== "closed") {
-        audioContextRef.current.close()
-      }
-    }
-  }, [])
+    setSelection(null)
+  }, [audioFile])
+
+  // The clock shows listening time, which differs from the audio's own while a speed effect is on
+  const listeningTime = currentTime / playbackRate
+  const listeningDuration = duration / playbackRate
 
   const handleSeek = (value: number[]) => {
     const newTime = value[0]
-    setCurrentTime(newTime)
+    setCurrentTime(newTime * playbackRate)
   }
 
   const handleVolumeChange = (value: number[]) => {
@@ -131,26 +58,57 @@ export default function AudioPlayer() {
 
   return (
     <motion.div
-      className="mb-12 bg-purple-900/20 rounded-xl p-6"
+      className="bg-purple-900/20 rounded-xl p-6"
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.6, delay: 0.2 }}
     >
       <div className="mb-6">
-        <canvas ref={canvasRef} className="w-full h-24 rounded-lg bg-purple-900/30" />
+        <SpectrumVisualizer />
+      </div>
+
+      <div className="mb-6">
+        <div className="flex justify-end mb-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-7 hover:bg-purple-800/50 ${editMode ? "text-pink-400" : "text-purple-300"}`}
+            onClick={() => {
+              setEditMode(!editMode)
+              setSelection(null)
+            }}
+            disabled={!audioUrl}
+          >
+            <Scissors className="h-4 w-4 mr-1" />
+            {editMode ? "Done editing" : "Edit audio"}
+          </Button>
+        </div>
+        <Waveform
+          selection={editMode ? selection : undefined}
+          onSelectionChange={editMode ? setSelection : undefined}
+        />
+        {editMode && (
+          <div className="mt-3">
+            <AudioEditor selection={selection} onSelectionChange={setSelection} />
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <RegionOverview />
       </div>
 
       <div className="flex items-center gap-2 mb-4">
-        <span className="text-white text-sm">{formatTime(currentTime)}</span>
+        <span className="text-white text-sm">{formatTime(listeningTime)}</span>
         <Slider
-          value={[currentTime]}
-          max={duration || 100}
+          value={[listeningTime]}
+          max={listeningDuration || 100}
           step={0.1}
           onValueChange={handleSeek}
           className="flex-1 mx-2"
           disabled={!audioUrl}
         />
-        <span className="text-white text-sm">{formatTime(duration)}</span>
+        <span className="text-white text-sm">{formatTime(listeningDuration)}</span>
       </div>
 
       <div className="flex items-center justify-between">
@@ -191,26 +149,24 @@ export default function AudioPlayer() {
             disabled={!audioUrl}
           />
 
-          <Button
-            variant="outline"
-            size="icon"
-            className="text-purple-400 border-purple-500 hover:bg-purple-800/50 ml-2"
-            onClick={downloadProcessedAudio}
-            disabled={!audioUrl}
-            title="Download processed audio"
-          >
-            <Download className="h-4 w-4" />
-          </Button>
+          <ExportDialog>
+            <Button
+              variant="outline"
+              size="icon"
+              className="text-purple-400 border-purple-500 hover:bg-purple-800/50 ml-2"
+              disabled={!audioUrl || exportProgress !== null}
+              title="Download processed audio"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </ExportDialog>
         </div>
       </div>
 
-      {activeEffects.length > 0 && (
-        <div className="mt-4 flex flex-wrap gap-2">
-          {activeEffects.map((effect) => (
-            <div key={effect.id} className="bg-purple-500/30 text-white text-xs px-2 py-1 rounded-full">
-              {effect.name}
-            </div>
-          ))}
+      {exportProgress !== null && (
+        <div className="mt-4 flex items-center gap-3">
+          <span className="text-purple-300 text-xs whitespace-nowrap">Rendering {Math.round(exportProgress * 100)}%</span>
+          <Progress value={exportProgress * 100} className="h-2 bg-purple-900/50" />
         </div>
       )}
 
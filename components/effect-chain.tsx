@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { motion, Reorder, useDragControls } from "framer-motion"
+import { Check, Copy, GripVertical, Link2, Power, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import EffectParameters from "@/components/effect-parameters"
+import { useAudioContext } from "@/context/audio-context"
+import { getEffect, type EffectSlot } from "@/lib/effects"
+import { encodeChainFragment } from "@/lib/presets"
+
+type ChainItemProps = {
+  slot: EffectSlot
+  position: number
+  selected: boolean
+  onSelect: () => void
+}
+
+function ChainItem({ slot, position, selected, onSelect }: ChainItemProps) {
+  const { removeSlot, duplicateSlot, toggleSlotBypass } = useAudioContext()
+  const dragControls = useDragControls()
+  const effect = getEffect(slot.effectId)
+
+  if (!effect) return null
+
+  return (
+    <Reorder.Item
+      value={slot.slotId}
+      dragListener={false}
+      dragControls={dragControls}
+      className={`flex items-center gap-2 rounded-lg px-2 py-2 cursor-pointer transition-colors ${
+        selected ? "bg-purple-600/40" : "bg-purple-900/40 hover:bg-purple-800/40"
+      } ${slot.bypassed ? "opacity-50" : ""}`}
+      onClick={onSelect}
+    >
+      <div
+        className="text-purple-400 cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={(event) => dragControls.start(event)}
+      >
+        <GripVertical className="h-4 w-4" />
+      </div>
+      <span className="text-purple-400 text-xs w-4">{position}</span>
+      <div className="h-7 w-7 rounded-full bg-gradient-to-br from-purple-500 to-pink-600 flex items-center justify-center text-white shrink-0">
+        <effect.icon className="h-4 w-4" />
+      </div>
+      <span className="text-white text-sm flex-1 truncate">{effect.name}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-7 w-7 hover:bg-purple-800/50 ${slot.bypassed ? "text-purple-500" : "text-pink-400"}`}
+        title={slot.bypassed ? "Enable" : "Bypass"}
+        onClick={(event) => {
+          event.stopPropagation()
+          toggleSlotBypass(slot.slotId)
+        }}
+      >
+        <Power className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+        title="Duplicate"
+        onClick={(event) => {
+          event.stopPropagation()
+          duplicateSlot(slot.slotId)
+        }}
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+        title="Remove"
+        onClick={(event) => {
+          event.stopPropagation()
+          removeSlot(slot.slotId)
+        }}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </Reorder.Item>
+  )
+}
+
+function ChainTargets() {
+  const { regions, selectedRegionId, selectRegion } = useAudioContext()
+
+  const targetClass = (selected: boolean) =>
+    `text-xs px-3 py-1 rounded-full transition-colors ${
+      selected
+        ? "bg-gradient-to-r from-purple-500 to-pink-600 text-white"
+        : "bg-purple-800/40 text-purple-200 hover:bg-purple-700/50"
+    }`
+
+  if (regions.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-4">
+      <button className={targetClass(selectedRegionId === null)} onClick={() => selectRegion(null)}>
+        Whole track
+      </button>
+      {regions.map((region, index) => (
+        <button
+          key={region.regionId}
+          className={targetClass(selectedRegionId === region.regionId)}
+          onClick={() => selectRegion(region.regionId)}
+        >
+          Region {index + 1}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+// Copies a link that opens the app with the chain being edited
+function ShareButton({ chain }: { chain: EffectSlot[] }) {
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#${encodeChainFragment(chain)}`
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+    } catch (error) {
+      console.error("Error copying share link:", error)
+    }
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+      title={copied ? "Link copied" : "Copy share link"}
+      onClick={handleShare}
+      disabled={chain.length === 0}
+    >
+      {copied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+    </Button>
+  )
+}
+
+export default function EffectChain() {
+  const { effectChain, reorderChain, liveNodeCount, selectedRegionId } = useAudioContext()
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null)
+  const knownSlotIds = useRef<string[]>([])
+
+  // Newly added slots open their parameters straight away
+  useEffect(() => {
+    const added = effectChain.find((slot) => !knownSlotIds.current.includes(slot.slotId))
+    if (added) setSelectedSlotId(added.slotId)
+    knownSlotIds.current = effectChain.map((slot) => slot.slotId)
+  }, [effectChain])
+
+  const selectedSlot = effectChain.find((slot) => slot.slotId === selectedSlotId) ?? effectChain[effectChain.length - 1]
+
+  return (
+    <motion.div
+      className="bg-purple-900/20 rounded-xl p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-xl font-bold text-white">Effect Chain</h3>
+        <ShareButton chain={effectChain} />
+      </div>
+      <p className="text-purple-300 text-xs mb-4">
+        {selectedRegionId
+          ? "Runs after the whole-track chain, only inside the region. Speed effects have no effect here."
+          : "Audio flows from top to bottom. Drag to reorder."}
+      </p>
+
+      <ChainTargets />
+
+      {effectChain.length === 0 ? (
+        <div className="text-center text-purple-300 text-sm py-8">Pick effects below to build a chain</div>
+      ) : (
+        <>
+          <Reorder.Group
+            axis="y"
+            values={effectChain.map((slot) => slot.slotId)}
+            onReorder={reorderChain}
+            className="flex flex-col gap-2 mb-6"
+          >
+            {effectChain.map((slot, index) => (
+              <ChainItem
+                key={slot.slotId}
+                slot={slot}
+                position={index + 1}
+                selected={slot.slotId === selectedSlot?.slotId}
+                onSelect={() => setSelectedSlotId(slot.slotId)}
+              />
+            ))}
+          </Reorder.Group>
+
+          {selectedSlot && <EffectParameters slot={selectedSlot} />}
+        </>
+      )}
+
+      {/* Debug readout for spotting nodes that outlive their effect */}
+      {process.env.NODE_ENV === "development" && (
+        <p className="text-purple-500 text-xs mt-4 tabular-nums">Live effect nodes: {liveNodeCount}</p>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import VocoderCarrier from "@/components/vocoder-carrier"
+import { useAudioContext } from "@/context/audio-context"
+import { PARAM_SLIDER_MAX, formatParamValue, paramToSlider, sliderToParam } from "@/lib/audio/effect-params"
+import { getEffect, VOCODER_FILE_CARRIER, vocoder, type EffectSlot } from "@/lib/effects"
+
+export default function EffectParameters({ slot }: { slot: EffectSlot }) {
+  const { setSlotMix, setSlotParam } = useAudioContext()
+  const effect = getEffect(slot.effectId)
+
+  if (!effect) return null
+
+  return (
+    <div className="grid gap-4">
+      {!effect.wetOnly && (
+        <div>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="text-purple-200">Mix</span>
+            <span className="text-white tabular-nums">{Math.round(slot.mix * 100)}% wet</span>
+          </div>
+          <Slider
+            value={[slot.mix]}
+            max={1}
+            step={0.01}
+            onValueChange={([mix]) => setSlotMix(slot.slotId, mix)}
+          />
+        </div>
+      )}
+
+      {effect.params.length === 0 && (
+        <p className="text-purple-300 text-sm">{effect.name} has no other adjustable parameters.</p>
+      )}
+
+      {effect.params.map((param) =>
+        param.options ? (
+          <div key={param.id} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-purple-200">{param.name}</span>
+            <Select
+              value={String(Math.round(slot.params[param.id]))}
+              onValueChange={(value) => setSlotParam(slot.slotId, param.id, Number(value))}
+            >
+              <SelectTrigger className="h-8 w-40 bg-purple-900/40 border-purple-700 text-white text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {param.options.map((option, index) => (
+                  <SelectItem key={option} value={String(index)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div key={param.id}>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-purple-200">{param.name}</span>
+              <span className="text-white tabular-nums">{formatParamValue(param, slot.params[param.id])}</span>
+            </div>
+            <Slider
+              value={[paramToSlider(param, slot.params[param.id])]}
+              max={PARAM_SLIDER_MAX}
+              step={1}
+              onValueChange={([position]) => setSlotParam(slot.slotId, param.id, sliderToParam(param, position))}
+            />
+          </div>
+        ),
+      )}
+
+      {effect.id === vocoder.id && slot.params.carrier === VOCODER_FILE_CARRIER && <VocoderCarrier />}
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAudioContext } from "@/context/audio-context"
+import { useExportSettings } from "@/hooks/use-export-settings"
+import {
+  EXPORT_FORMATS,
+  OPUS_BITRATES,
+  getSupportedSampleRates,
+  resolveExportSampleRate,
+  type ExportFormat,
+  type ExportSettings,
+} from "@/lib/audio/export-formats"
+import { MP3_BITRATES, type Mp3Bitrate } from "@/lib/audio/mp3"
+import type { FlacBitDepth } from "@/lib/audio/flac"
+import type { WavBitDepth } from "@/lib/audio/wav"
+
+const MP3_VBR_QUALITIES = [
+  { value: 0, label: "V0 (~245 kbps)" },
+  { value: 2, label: "V2 (~190 kbps)" },
+  { value: 4, label: "V4 (~165 kbps)" },
+  { value: 6, label: "V6 (~130 kbps)" },
+]
+
+function SettingRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-3 items-center gap-4">
+      <Label className="text-purple-200">{label}</Label>
+      <div className="col-span-2">{children}</div>
+    </div>
+  )
+}
+
+export default function ExportDialog({ children }: { children: React.ReactNode }) {
+  const { downloadProcessedAudio, exportProgress } = useAudioContext()
+  const [savedSettings, saveSettings] = useExportSettings()
+  const [open, setOpen] = useState(false)
+  const [settings, setSettings] = useState<ExportSettings>(savedSettings)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // Start from the remembered settings every time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setExportError(null)
+    setSettings(savedSettings)
+  }, [open, savedSettings])
+
+  const update = (changes: Partial<ExportSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes }
+      return { ...next, sampleRate: resolveExportSampleRate(next) }
+    })
+  }
+
+  // The dialog stays open while rendering so a failed export can say why
+  const handleExport = () => {
+    setExportError(null)
+    saveSettings(settings)
+    downloadProcessedAudio(settings)
+      .then(() => setOpen(false))
+      .catch((error) => {
+        console.error("Error exporting audio:", error)
+        setExportError(error instanceof Error ? error.message : "Could not export the audio")
+      })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="bg-purple-950 border-purple-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Export Processed Audio</DialogTitle>
+          <DialogDescription className="text-purple-300">
+            The full track is rendered with the active effects and encoded in your browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <SettingRow label="Format">
+            <Select value={settings.format} onValueChange={(value) => update({ format: value as ExportFormat })}>
+              <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map((format) => (
+                  <SelectItem key={format.value} value={format.value}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          <SettingRow label="Sample rate">
+            <Select
+              value={String(settings.sampleRate)}
+              onValueChange={(value) => update({ sampleRate: Number(value) })}
+              disabled={getSupportedSampleRates(settings.format).length < 2}
+            >
+              <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getSupportedSampleRates(settings.format).map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>
+                    {(rate / 1000).toFixed(rate % 1000 === 0 ? 0 : 1)} kHz
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+
+          {settings.format === "wav" && (
+            <SettingRow label="Bit depth">
+              <Select
+                value={String(settings.wavBitDepth)}
+                onValueChange={(value) => update({ wavBitDepth: Number(value) as WavBitDepth })}
+              >
+                <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="16">16-bit PCM</SelectItem>
+                  <SelectItem value="24">24-bit PCM</SelectItem>
+                  <SelectItem value="32">32-bit float</SelectItem>
+                </SelectContent>
+              </Select>
+            </SettingRow>
+          )}
+
+          {settings.format === "flac" && (
+            <SettingRow label="Bit depth">
+              <Select
+                value={String(settings.flacBitDepth)}
+                onValueChange={(value) => update({ flacBitDepth: Number(value) as FlacBitDepth })}
+              >
+                <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="16">16-bit</SelectItem>
+                  <SelectItem value="24">24-bit</SelectItem>
+                </SelectContent>
+              </Select>
+            </SettingRow>
+          )}
+
+          {settings.format === "mp3" && (
+            <>
+              <SettingRow label="Mode">
+                <Select
+                  value={settings.mp3Mode}
+                  onValueChange={(value) => update({ mp3Mode: value as ExportSettings["mp3Mode"] })}
+                >
+                  <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cbr">Constant bitrate</SelectItem>
+                    <SelectItem value="vbr">Variable bitrate</SelectItem>
+                  </SelectContent>
+                </Select>
+              </SettingRow>
+
+              {settings.mp3Mode === "cbr" ? (
+                <SettingRow label="Bitrate">
+                  <Select
+                    value={String(settings.mp3Bitrate)}
+                    onValueChange={(value) => update({ mp3Bitrate: Number(value) as Mp3Bitrate })}
+                  >
+                    <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MP3_BITRATES.map((bitrate) => (
+                        <SelectItem key={bitrate} value={String(bitrate)}>
+                          {bitrate} kbps
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </SettingRow>
+              ) : (
+                <SettingRow label="Quality">
+                  <Select
+                    value={String(settings.mp3VbrQuality)}
+                    onValueChange={(value) => update({ mp3VbrQuality: Number(value) })}
+                  >
+                    <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MP3_VBR_QUALITIES.map((quality) => (
+                        <SelectItem key={quality.value} value={String(quality.value)}>
+                          {quality.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </SettingRow>
+              )}
+            </>
+          )}
+
+          {settings.format === "opus" && (
+            <SettingRow label="Bitrate">
+              <Select
+                value={String(settings.opusBitrate)}
+                onValueChange={(value) => update({ opusBitrate: Number(value) })}
+              >
+                <SelectTrigger className="bg-purple-900/40 border-purple-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPUS_BITRATES.map((bitrate) => (
+                    <SelectItem key={bitrate} value={String(bitrate)}>
+                      {bitrate / 1000} kbps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+          )}
+        </div>
+
+        {exportError && <p className="text-pink-400 text-sm">{exportError}</p>}
+
+        <DialogFooter>
+          <Button
+            className="bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700"
+            onClick={handleExport}
+            disabled={exportProgress !== null}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {exportProgress !== null ? `Rendering ${Math.round(exportProgress * 100)}%` : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { motion } from "framer-motion"
+import { Redo2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useHistory } from "@/context/history-context"
+
+export default function HistoryPanel() {
+  const { entries, position, undo, redo, jumpTo, canUndo, canRedo } = useHistory()
+
+  // Position 0 is the state before anything was recorded
+  const steps = [{ id: 0, label: "Start" }, ...entries]
+
+  return (
+    <motion.div
+      className="bg-purple-900/20 rounded-xl p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.4 }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-white">History</h3>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Undo (Ctrl+Z)"
+            onClick={undo}
+            disabled={!canUndo}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Redo (Ctrl+Shift+Z)"
+            onClick={redo}
+            disabled={!canRedo}
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-48">
+        <ol className="flex flex-col-reverse gap-1 pr-3">
+          {steps.map((step, index) => (
+            <li key={step.id}>
+              <button
+                className={`w-full text-left text-sm px-2 py-1 rounded transition-colors ${
+                  index === position
+                    ? "bg-purple-600/40 text-white"
+                    : index > position
+                      ? "text-purple-500 hover:bg-purple-800/40"
+                      : "text-purple-200 hover:bg-purple-800/40"
+                }`}
+                onClick={() => jumpTo(index)}
+              >
+                {step.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+    </motion.div>
+  )
+}
@@ -0,0 +1,310 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { motion } from "framer-motion"
+import { Check, Download, Pencil, RotateCcw, Save, Star, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useAudioContext } from "@/context/audio-context"
+import { usePresets } from "@/hooks/use-presets"
+import { describeDroppedEffects } from "@/lib/effects"
+import {
+  findDroppedEffects,
+  matchesPresetSearch,
+  parsePresetFile,
+  presetFromChain,
+  presetToChain,
+  serializePresets,
+  type Preset,
+} from "@/lib/presets"
+
+const splitTags = (text: string) => text.split(",")
+
+function downloadPresets(presets: Preset[], filename: string) {
+  const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: "application/json" }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+const presetFilename = (name: string) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "preset"}.json`
+
+type PresetRowProps = {
+  preset: Preset
+  onLoad: () => void
+  onUpdate: (changes: Partial<Pick<Preset, "name" | "tags" | "favorite">>) => void
+  onRemove: () => void
+}
+
+function PresetRow({ preset, onLoad, onUpdate, onRemove }: PresetRowProps) {
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState(preset.name)
+  const [tags, setTags] = useState(preset.tags.join(", "))
+
+  const commit = () => {
+    if (name.trim()) onUpdate({ name: name.trim(), tags: splitTags(tags) })
+    setEditing(false)
+  }
+
+  const iconButton = "h-7 w-7 text-purple-300 hover:bg-purple-800/50 shrink-0"
+
+  if (editing) {
+    return (
+      <li className="flex flex-col gap-1 rounded-lg bg-purple-900/40 p-2">
+        <Input
+          className="h-7 bg-purple-900/40 border-purple-700 text-white text-xs"
+          value={name}
+          autoFocus
+          onChange={(event) => setName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commit()
+            if (event.key === "Escape") setEditing(false)
+          }}
+        />
+        <div className="flex gap-1">
+          <Input
+            className="h-7 bg-purple-900/40 border-purple-700 text-white text-xs"
+            placeholder="Tags, comma separated"
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") commit()
+              if (event.key === "Escape") setEditing(false)
+            }}
+          />
+          <Button variant="ghost" size="icon" className={iconButton} title="Save" onClick={commit}>
+            <Check className="h-4 w-4" />
+          </Button>
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <li className="flex items-center gap-1 rounded-lg bg-purple-900/40 hover:bg-purple-800/40 px-1 py-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-7 w-7 hover:bg-purple-800/50 shrink-0 ${preset.favorite ? "text-pink-400" : "text-purple-500"}`}
+        title={preset.favorite ? "Remove from favorites" : "Add to favorites"}
+        onClick={() => onUpdate({ favorite: !preset.favorite })}
+      >
+        <Star className="h-4 w-4" fill={preset.favorite ? "currentColor" : "none"} />
+      </Button>
+      <button className="flex-1 min-w-0 text-left" title="Load preset" onClick={onLoad}>
+        <span className="block text-white text-sm truncate">{preset.name}</span>
+        <span className="block text-purple-400 text-[10px] truncate">
+          {preset.slots.length} {preset.slots.length === 1 ? "effect" : "effects"}
+          {preset.tags.length > 0 && ` · ${preset.tags.join(", ")}`}
+        </span>
+      </button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={iconButton}
+        title="Rename"
+        onClick={() => {
+          setName(preset.name)
+          setTags(preset.tags.join(", "))
+          setEditing(true)
+        }}
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={iconButton}
+        title="Export"
+        onClick={() => downloadPresets([preset], presetFilename(preset.name))}
+      >
+        <Download className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className={iconButton} title="Delete" onClick={onRemove}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  )
+}
+
+// Saved chains, stored in the browser. Loading a preset replaces the chain being edited.
+export default function PresetBrowser() {
+  const { effectChain, loadChain } = useAudioContext()
+  const { presets, loaded, addPresets, updatePreset, removePreset, restoreFactory } = usePresets()
+  const [name, setName] = useState("")
+  const [tags, setTags] = useState("")
+  const [query, setQuery] = useState("")
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [loadNotice, setLoadNotice] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const allTags = [...new Set(presets.flatMap((preset) => preset.tags))].sort()
+  const visible = presets
+    .filter((preset) => !favoritesOnly || preset.favorite)
+    .filter((preset) => !tagFilter || preset.tags.includes(tagFilter))
+    .filter((preset) => matchesPresetSearch(preset, query))
+    // Favorites first, the list is already sorted by name
+    .sort((a, b) => Number(b.favorite) - Number(a.favorite))
+
+  const handleSave = () => {
+    if (effectChain.length === 0) return
+    addPresets([presetFromChain(name, splitTags(tags), effectChain)])
+    setName("")
+    setTags("")
+  }
+
+  const handleLoad = (preset: Preset) => {
+    loadChain(presetToChain(preset), `Load preset ${preset.name}`)
+    setLoadNotice(describeDroppedEffects(findDroppedEffects(preset.slots)) || null)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = parsePresetFile(await file.text())
+      await addPresets(imported)
+      setImportError(imported.length === 0 ? "The file has no presets" : null)
+    } catch (error) {
+      console.error("Error importing presets:", error)
+      setImportError(error instanceof Error ? error.message : "Could not read the file")
+    }
+  }
+
+  const chipClass = (selected: boolean) =>
+    `text-xs px-2 py-0.5 rounded-full transition-colors ${
+      selected
+        ? "bg-gradient-to-r from-purple-500 to-pink-600 text-white"
+        : "bg-purple-800/40 text-purple-200 hover:bg-purple-700/50"
+    }`
+
+  return (
+    <motion.div
+      className="bg-purple-900/20 rounded-xl p-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.35 }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-white">Presets</h3>
+        <div className="flex gap-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept=".json,application/json"
+            onChange={handleImport}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Import presets"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Export all presets"
+            onClick={() => downloadPresets(presets, "musico-presets.json")}
+            disabled={presets.length === 0}
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Restore factory presets"
+            onClick={restoreFactory}
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 mb-4">
+        <Input
+          className="h-8 bg-purple-900/40 border-purple-700 text-white text-xs"
+          placeholder="Preset name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <div className="flex gap-2">
+          <Input
+            className="h-8 bg-purple-900/40 border-purple-700 text-white text-xs"
+            placeholder="Tags, comma separated"
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+          />
+          <Button
+            size="sm"
+            className="h-8 bg-gradient-to-r from-purple-500 to-pink-600 hover:from-purple-600 hover:to-pink-700"
+            onClick={handleSave}
+            disabled={effectChain.length === 0}
+          >
+            <Save className="h-4 w-4 mr-1" /> Save chain
+          </Button>
+        </div>
+      </div>
+
+      <Input
+        className="h-8 bg-purple-900/40 border-purple-700 text-white text-xs mb-2"
+        placeholder="Search presets"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+      />
+      <div className="flex flex-wrap gap-1 mb-3">
+        <button className={chipClass(favoritesOnly)} onClick={() => setFavoritesOnly(!favoritesOnly)}>
+          ★ Favorites
+        </button>
+        {allTags.map((tag) => (
+          <button
+            key={tag}
+            className={chipClass(tagFilter === tag)}
+            onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+
+      {importError && <p className="text-pink-400 text-xs mb-2">{importError}</p>}
+      {loadNotice && <p className="text-pink-400 text-xs mb-2">{loadNotice}</p>}
+
+      <ScrollArea className="h-64">
+        {visible.length === 0 ? (
+          <p className="text-center text-purple-300 text-sm py-8">
+            {!loaded ? "Loading presets..." : presets.length === 0 ? "No presets saved yet" : "No presets match"}
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-1 pr-3">
+            {visible.map((preset) => (
+              <PresetRow
+                key={preset.presetId}
+                preset={preset}
+                onLoad={() => handleLoad(preset)}
+                onUpdate={(changes) => updatePreset(preset, changes)}
+                onRemove={() => removePreset(preset.presetId)}
+              />
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </motion.div>
+  )
+}
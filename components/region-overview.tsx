@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { useAudioContext } from "@/context/audio-context"
+import { getWaveformPeaks, peakRange, type WaveformPeaks } from "@/lib/audio/peaks"
+import { freeRangeAround, MIN_REGION_LENGTH } from "@/lib/effects"
+
+// Longest fade offered, regions shorter than twice this get proportionally shorter fades
+const MAX_FADE = 2
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60)
+  const seconds = (time % 60).toFixed(1).padStart(4, "0")
+  return `${minutes}:${seconds}`
+}
+
+export default function RegionOverview() {
+  const { audioBuffer, regions, selectedRegionId, selectRegion, addRegion, updateRegion, removeRegion } =
+    useAudioContext()
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null)
+  const [draft, setDraft] = useState<{ anchor: number; to: number; min: number; max: number } | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+
+  const duration = audioBuffer?.duration ?? 0
+
+  useEffect(() => {
+    // Edits swap the buffer, the old outline stays up until the new one is ready
+    if (!audioBuffer) {
+      setPeaks(null)
+      return
+    }
+
+    let cancelled = false
+    getWaveformPeaks(audioBuffer)
+      .then((result) => {
+        if (!cancelled) setPeaks(result)
+      })
+      .catch((error) => {
+        console.error("Error computing waveform peaks:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [audioBuffer])
+
+  // A static outline of the whole track, only redrawn when the peaks change
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    canvas.width = canvas.clientWidth * window.devicePixelRatio
+    canvas.height = canvas.clientHeight * window.devicePixelRatio
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    if (!peaks) return
+
+    const middle = canvas.height / 2
+    const peaksPerPixel = peaks.min.length / canvas.width
+    ctx.fillStyle = "rgba(216, 180, 254, 0.5)"
+    for (let x = 0; x < canvas.width; x++) {
+      const [low, high] = peakRange(peaks, x * peaksPerPixel, (x + 1) * peaksPerPixel)
+      const top = middle - high * middle
+      ctx.fillRect(x, top, 1, Math.max(1, middle - low * middle - top))
+    }
+  }, [peaks])
+
+  const timeAt = (event: React.PointerEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)) * duration
+  }
+
+  const percent = (time: number) => `${(time / duration) * 100}%`
+
+  const selectedIndex = regions.findIndex((region) => region.regionId === selectedRegionId)
+  const selectedRegion = regions[selectedIndex]
+  const maxFade = selectedRegion ? Math.min(MAX_FADE, (selectedRegion.end - selectedRegion.start) / 2) : 0
+
+  return (
+    <div>
+      <div
+        className="relative h-12 rounded-lg bg-purple-900/30 cursor-crosshair touch-none select-none overflow-hidden"
+        onPointerDown={(event) => {
+          if (!duration) return
+          const anchor = timeAt(event)
+          // New regions can't overlap existing ones, so the drag is limited to the gap it started in
+          const [min, max] = freeRangeAround(regions, anchor, duration)
+          event.currentTarget.setPointerCapture(event.pointerId)
+          setDraft({ anchor, to: anchor, min, max })
+        }}
+        onPointerMove={(event) => {
+          if (!draft) return
+          setDraft({ ...draft, to: Math.min(draft.max, Math.max(draft.min, timeAt(event))) })
+        }}
+        onPointerUp={() => {
+          if (!draft) return
+          if (Math.abs(draft.to - draft.anchor) >= MIN_REGION_LENGTH) addRegion(draft.anchor, draft.to)
+          else selectRegion(null)
+          setDraft(null)
+        }}
+        onPointerCancel={() => setDraft(null)}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+        {duration > 0 &&
+          regions.map((region, index) => (
+            <div
+              key={region.regionId}
+              className={`absolute inset-y-0 rounded cursor-pointer border ${
+                region.regionId === selectedRegionId
+                  ? "bg-pink-500/40 border-pink-300"
+                  : "bg-purple-500/30 border-purple-400/50 hover:bg-purple-500/40"
+              }`}
+              style={{ left: percent(region.start), width: percent(region.end - region.start) }}
+              onPointerDown={(event) => {
+                event.stopPropagation()
+                selectRegion(region.regionId)
+              }}
+            >
+              <span className="absolute top-0.5 left-1 text-[10px] text-white">R{index + 1}</span>
+            </div>
+          ))}
+
+        {draft && duration > 0 && (
+          <div
+            className="absolute inset-y-0 bg-pink-400/30 border border-dashed border-pink-300 pointer-events-none"
+            style={{
+              left: percent(Math.min(draft.anchor, draft.to)),
+              width: percent(Math.abs(draft.to - draft.anchor)),
+            }}
+          />
+        )}
+      </div>
+
+      {selectedRegion ? (
+        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs">
+          <span className="text-white tabular-nums">
+            Region {selectedIndex + 1}: {formatTime(selectedRegion.start)} – {formatTime(selectedRegion.end)}
+          </span>
+          <div className="flex items-center gap-2 flex-1 min-w-[140px]">
+            <span className="text-purple-200 whitespace-nowrap">Fade in {selectedRegion.fadeIn.toFixed(2)} s</span>
+            <Slider
+              value={[selectedRegion.fadeIn]}
+              max={maxFade}
+              step={0.01}
+              onValueChange={([fadeIn]) => updateRegion(selectedRegion.regionId, { fadeIn })}
+            />
+          </div>
+          <div className="flex items-center gap-2 flex-1 min-w-[140px]">
+            <span className="text-purple-200 whitespace-nowrap">Fade out {selectedRegion.fadeOut.toFixed(2)} s</span>
+            <Slider
+              value={[selectedRegion.fadeOut]}
+              max={maxFade}
+              step={0.01}
+              onValueChange={([fadeOut]) => updateRegion(selectedRegion.regionId, { fadeOut })}
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+            title="Remove region"
+            onClick={() => removeRegion(selectedRegion.regionId)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-purple-400 text-xs mt-2">
+          {duration > 0 ? "Drag across the track to apply a separate chain to part of it" : "Regions appear here"}
+        </p>
+      )}
+    </div>
+  )
+}
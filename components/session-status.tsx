@@ -0,0 +1,58 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAudioContext } from "@/context/audio-context"
+import { getStorageUsage } from "@/lib/session"
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+// Shows how much the saved session takes up, and offers to throw it away
+export default function SessionStatus() {
+  const { startFresh, sessionNotice, chainNotice, sessionSavedAt } = useAudioContext()
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null)
+
+  useEffect(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch((error) => {
+        console.error("Error reading storage usage:", error)
+      })
+  }, [sessionSavedAt])
+
+  return (
+    <div className="mt-4 pt-4 border-t border-purple-800/50 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-purple-400 tabular-nums">
+          {usage
+            ? `Session kept in this browser · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used`
+            : "Session kept in this browser"}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-purple-300 hover:bg-purple-800/50"
+          title="Forget the saved session and start over"
+          onClick={startFresh}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" /> Start fresh
+        </Button>
+      </div>
+      {usage && usage.quota > 0 && (
+        <div className="h-1 bg-purple-900 rounded-full overflow-hidden mt-2">
+          <div
+            className="h-full bg-gradient-to-r from-purple-400 to-pink-500"
+            style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+          />
+        </div>
+      )}
+      {sessionNotice && <p className="text-pink-400 mt-2">{sessionNotice}</p>}
+      {chainNotice && <p className="text-pink-400 mt-2">{chainNotice}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Link2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAudioContext } from "@/context/audio-context"
+import { decodeChainFragment, type SharedChain } from "@/lib/presets"
+
+type LinkState =
+  | { status: "pending"; shared: SharedChain }
+  | { status: "applied"; shared: SharedChain }
+  | { status: "invalid" }
+
+const describeRepairs = (shared: SharedChain) =>
+  [
+    shared.skipped > 0 && `Skipped ${shared.skipped} unknown ${shared.skipped === 1 ? "effect" : "effects"}.`,
+    shared.adjusted > 0 && `Adjusted ${shared.adjusted} out-of-range ${shared.adjusted === 1 ? "value" : "values"}.`,
+  ]
+    .filter(Boolean)
+    .join(" ")
+
+// Once a link has been used or turned down its fragment goes, otherwise every reload would apply
+// the chain again over the restored session
+const dropFragment = () => history.replaceState(null, "", location.pathname + location.search)
+
+// Applies a chain from a shared link. The link can be opened before any audio is loaded, so the
+// chain waits for the next decoded file and replaces that file's empty chain.
+export default function SharedChainLink() {
+  const { audioFile, audioBuffer, loadChain } = useAudioContext()
+  const [link, setLink] = useState<LinkState | null>(null)
+
+  useEffect(() => {
+    const readHash = () => {
+      try {
+        const shared = decodeChainFragment(window.location.hash)
+        setLink(shared ? { status: "pending", shared } : null)
+      } catch (error) {
+        console.error("Error reading shared chain:", error)
+        setLink({ status: "invalid" })
+      }
+    }
+    readHash()
+    window.addEventListener("hashchange", readHash)
+    return () => window.removeEventListener("hashchange", readHash)
+  }, [])
+
+  // Waits for the decoded buffer rather than the file, loading a file resets the chain first
+  useEffect(() => {
+    if (link?.status !== "pending" || !audioFile || !audioBuffer) return
+    loadChain(link.shared.chain, "Load shared chain")
+    dropFragment()
+    setLink({ status: "applied", shared: link.shared })
+  }, [link, audioFile, audioBuffer, loadChain])
+
+  if (!link) return null
+
+  const message =
+    link.status === "invalid"
+      ? "This link's effect chain couldn't be read."
+      : link.status === "pending"
+        ? `This link sets up a chain of ${link.shared.chain.length} effects. It's applied when you upload a file.`
+        : `Applied the shared chain of ${link.shared.chain.length} effects.`
+  const repairs = link.status === "invalid" ? "" : describeRepairs(link.shared)
+
+  return (
+    <div className="flex items-center gap-3 mb-8 rounded-xl bg-purple-900/30 border border-purple-700/50 px-4 py-3">
+      <Link2 className="h-5 w-5 text-pink-400 shrink-0" />
+      <p className="flex-1 text-sm text-purple-100">
+        {message}
+        {repairs && <span className="block text-xs text-purple-400">{repairs}</span>}
+      </p>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+        title="Dismiss"
+        onClick={() => {
+          dropFragment()
+          setLink(null)
+        }}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { motion } from "framer-motion"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAudioContext } from "@/context/audio-context"
+import { COLORMAPS, getColormapTable, type Colormap } from "@/lib/audio/colormaps"
+import { frequencyAtPosition, type FrequencyScale } from "@/lib/audio/frequency-scale"
+import {
+  DEFAULT_SPECTROGRAM_SETTINGS,
+  FFT_SIZES,
+  FREQUENCY_SCALES,
+  SPECTROGRAM_WINDOWS,
+  computeSpectrogram,
+  type SpectrogramSettings,
+  type SpectrogramWindow,
+} from "@/lib/audio/spectrogram"
+
+type SpectrogramView = "original" | "processed" | "compare"
+
+const VIEWS: { value: SpectrogramView; label: string }[] = [
+  { value: "original", label: "Original" },
+  { value: "processed", label: "With effects" },
+  { value: "compare", label: "Side by side" },
+]
+
+// Axis positions that get a frequency label
+const LABEL_POSITIONS = [0.05, 0.3, 0.55, 0.8]
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${(frequency / 1000).toFixed(frequency >= 10000 ? 0 : 1)} kHz` : `${Math.round(frequency)} Hz`
+
+function ControlSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value: string
+  options: { value: string; label: string }[]
+  onChange: (value: string) => void
+}) {
+  return (
+    <div className="grid gap-1">
+      <Label className="text-purple-200 text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 bg-purple-900/40 border-purple-700 text-white text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+// Writes a run of columns into the image, flipped so low frequencies sit at the bottom
+function paintColumns(
+  canvas: HTMLCanvasElement,
+  image: ImageData,
+  levels: Uint8Array,
+  colormap: Colormap,
+  firstColumn: number,
+  columns: number,
+) {
+  const ctx = canvas.getContext("2d")
+  if (!ctx || columns === 0) return
+
+  const table = getColormapTable(colormap)
+  const { width, height } = image
+  for (let column = firstColumn; column < firstColumn + columns; column++) {
+    for (let row = 0; row < height; row++) {
+      const level = levels[column * height + row]
+      const pixel = ((height - 1 - row) * width + column) * 4
+      image.data[pixel] = table[level * 3]
+      image.data[pixel + 1] = table[level * 3 + 1]
+      image.data[pixel + 2] = table[level * 3 + 2]
+      image.data[pixel + 3] = 255
+    }
+  }
+  ctx.putImageData(image, 0, 0, firstColumn, 0, columns, height)
+}
+
+function SpectrogramCanvas({
+  buffer,
+  settings,
+  colormap,
+  title,
+}: {
+  buffer: AudioBuffer
+  settings: SpectrogramSettings
+  colormap: Colormap
+  title: string
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const imageRef = useRef<ImageData | null>(null)
+  const levelsRef = useRef<Uint8Array>(new Uint8Array(0))
+  const colormapRef = useRef(colormap)
+  const finishedColumnsRef = useRef(0)
+  const [progress, setProgress] = useState(0)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    const job = computeSpectrogram(buffer, settings, (chunk) => {
+      levelsRef.current.set(chunk.levels, chunk.firstColumn * job.rows)
+      paintColumns(canvas, image, levelsRef.current, colormapRef.current, chunk.firstColumn, chunk.columns)
+      finishedColumnsRef.current = chunk.firstColumn + chunk.columns
+      setProgress(finishedColumnsRef.current / job.columns)
+    })
+
+    canvas.width = job.columns
+    canvas.height = job.rows
+    const image = ctx.createImageData(job.columns, job.rows)
+    imageRef.current = image
+    levelsRef.current = new Uint8Array(job.columns * job.rows)
+    finishedColumnsRef.current = 0
+    setProgress(0)
+
+    job.done.catch((error) => {
+      console.error("Error computing spectrogram:", error)
+    })
+
+    return () => {
+      job.cancel()
+    }
+  }, [buffer, settings])
+
+  // Recoloring reuses the computed levels
+  useEffect(() => {
+    colormapRef.current = colormap
+    const canvas = canvasRef.current
+    const image = imageRef.current
+    if (canvas && image) paintColumns(canvas, image, levelsRef.current, colormap, 0, finishedColumnsRef.current)
+  }, [colormap])
+
+  const nyquist = buffer.sampleRate / 2
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-purple-200">{title}</span>
+        {progress < 1 && <span className="text-purple-400 tabular-nums">Analyzing {Math.round(progress * 100)}%</span>}
+      </div>
+      <div className="relative">
+        <canvas ref={canvasRef} className="w-full h-48 rounded-lg bg-purple-900/30" />
+        {LABEL_POSITIONS.map((position) => (
+          <span
+            key={position}
+            className="absolute left-1 text-[10px] text-white/70 pointer-events-none"
+            style={{ bottom: `${position * 100}%` }}
+          >
+            {formatFrequency(frequencyAtPosition(settings.scale, position, nyquist))}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function Spectrogram() {
+  const { audioBuffer, effectChain, regions, renderProcessedAudio } = useAudioContext()
+  const [settings, setSettings] = useState<SpectrogramSettings>(DEFAULT_SPECTROGRAM_SETTINGS)
+  const [colormap, setColormap] = useState<Colormap>("magma")
+  const [view, setView] = useState<SpectrogramView>("original")
+  const [processed, setProcessed] = useState<{ buffer: AudioBuffer; chain: string } | null>(null)
+  const [rendering, setRendering] = useState(false)
+
+  // The processed render belongs to the file it was made from
+  useEffect(() => {
+    setProcessed(null)
+  }, [audioBuffer])
+
+  const chainSignature = JSON.stringify([effectChain, regions])
+  const showsProcessed = view !== "original"
+  const processedStale = processed !== null && processed.chain !== chainSignature
+
+  const renderProcessed = async () => {
+    setRendering(true)
+    try {
+      const buffer = await renderProcessedAudio()
+      setProcessed(buffer ? { buffer, chain: chainSignature } : null)
+    } catch (error) {
+      console.error("Error rendering audio for the spectrogram:", error)
+    } finally {
+      setRendering(false)
+    }
+  }
+
+  // Processed audio is rendered the first time it's asked for, later chain edits wait for a refresh
+  const changeView = (next: SpectrogramView) => {
+    setView(next)
+    if (next !== "original" && audioBuffer && !processed && !rendering) renderProcessed()
+  }
+
+  const update = (changes: Partial<SpectrogramSettings>) => setSettings((prev) => ({ ...prev, ...changes }))
+
+  let panels: React.ReactNode = null
+  if (audioBuffer) {
+    const original = (
+      <SpectrogramCanvas buffer={audioBuffer} settings={settings} colormap={colormap} title="Original" />
+    )
+    const withEffects = processed ? (
+      <SpectrogramCanvas buffer={processed.buffer} settings={settings} colormap={colormap} title="With effects" />
+    ) : (
+      <div className="h-48 mt-5 rounded-lg bg-purple-900/30 flex items-center justify-center text-purple-300 text-sm">
+        {rendering ? (
+          "Rendering effects..."
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-purple-300 border-purple-500 hover:bg-purple-800/50"
+            onClick={renderProcessed}
+          >
+            Render with effects
+          </Button>
+        )}
+      </div>
+    )
+    panels =
+      view === "compare" ? (
+        <div className="grid md:grid-cols-2 gap-4">
+          {original}
+          {withEffects}
+        </div>
+      ) : view === "processed" ? (
+        withEffects
+      ) : (
+        original
+      )
+  }
+
+  return (
+    <motion.div
+      className="bg-purple-900/20 rounded-xl p-6 mb-12"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.4 }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-bold text-white">Spectrogram</h3>
+        {showsProcessed && processedStale && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-purple-300 border-purple-500 hover:bg-purple-800/50"
+            onClick={renderProcessed}
+            disabled={rendering}
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${rendering ? "animate-spin" : ""}`} />
+            Update with current chain
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        <ControlSelect
+          label="View"
+          value={view}
+          options={VIEWS}
+          onChange={(value) => changeView(value as SpectrogramView)}
+        />
+        <ControlSelect
+          label="FFT size"
+          value={String(settings.fftSize)}
+          options={FFT_SIZES.map((size) => ({ value: String(size), label: String(size) }))}
+          onChange={(value) => update({ fftSize: Number(value) })}
+        />
+        <ControlSelect
+          label="Window"
+          value={settings.window}
+          options={SPECTROGRAM_WINDOWS}
+          onChange={(value) => update({ window: value as SpectrogramWindow })}
+        />
+        <ControlSelect
+          label="Frequency axis"
+          value={settings.scale}
+          options={FREQUENCY_SCALES}
+          onChange={(value) => update({ scale: value as FrequencyScale })}
+        />
+        <ControlSelect
+          label="Colors"
+          value={colormap}
+          options={COLORMAPS}
+          onChange={(value) => setColormap(value as Colormap)}
+        />
+      </div>
+
+      {panels ?? (
+        <div className="text-center text-purple-300 text-sm py-8">Upload an audio file to see its spectrogram</div>
+      )}
+    </motion.div>
+  )
+}
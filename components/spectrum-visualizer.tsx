@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useAudioContext } from "@/context/audio-context"
+
+type VisualizerMode = "bars" | "line" | "peak"
+type VisualizerSource = "post" | "pre" | "compare"
+
+const MODES: { value: VisualizerMode; label: string }[] = [
+  { value: "bars", label: "Bars" },
+  { value: "line", label: "Line" },
+  { value: "peak", label: "Peak hold" },
+]
+
+const SOURCES: { value: VisualizerSource; label: string }[] = [
+  { value: "post", label: "With effects" },
+  { value: "pre", label: "Original" },
+  { value: "compare", label: "Compare" },
+]
+
+const MIN_FREQUENCY = 20
+const BAR_COUNT = 64
+// Fraction of the canvas height a held peak falls per frame
+const PEAK_FALL = 0.006
+
+// Spectrum level (0..1) at a point on a log frequency axis (0..1)
+function levelAt(data: Uint8Array, position: number, sampleRate: number) {
+  const nyquist = sampleRate / 2
+  const frequency = MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, position)
+  const bin = Math.min(data.length - 1, Math.round((frequency / nyquist) * data.length))
+  return data[bin] / 255
+}
+
+// Loudest bin between two points on the log axis, so narrow high bands don't miss peaks
+function bandLevel(data: Uint8Array, from: number, to: number, sampleRate: number) {
+  const nyquist = sampleRate / 2
+  const toBin = (position: number) =>
+    Math.min(
+      data.length - 1,
+      Math.floor(((MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, position)) / nyquist) * data.length),
+    )
+  let level = 0
+  for (let bin = toBin(from); bin <= toBin(to); bin++) {
+    level = Math.max(level, data[bin])
+  }
+  return level / 255
+}
+
+export default function SpectrumVisualizer() {
+  const { analysers, audioUrl } = useAudioContext()
+  const [mode, setMode] = useState<VisualizerMode>("bars")
+  const [source, setSource] = useState<VisualizerSource>("post")
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const animationRef = useRef<number | null>(null)
+  const peaksRef = useRef<Float32Array>(new Float32Array(BAR_COUNT))
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    canvas.width = canvas.clientWidth * window.devicePixelRatio
+    canvas.height = canvas.clientHeight * window.devicePixelRatio
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    if (!analysers) return
+
+    const sampleRate = analysers.post.context.sampleRate
+    const postData = new Uint8Array(analysers.post.frequencyBinCount)
+    const preData = new Uint8Array(analysers.pre.frequencyBinCount)
+    peaksRef.current.fill(0)
+
+    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height)
+    gradient.addColorStop(0, "#a855f7")
+    gradient.addColorStop(1, "#ec4899")
+
+    const drawBars = (data: Uint8Array, holdPeaks: boolean) => {
+      const slotWidth = canvas.width / BAR_COUNT
+      const peaks = peaksRef.current
+
+      for (let i = 0; i < BAR_COUNT; i++) {
+        const level = bandLevel(data, i / BAR_COUNT, (i + 1) / BAR_COUNT, sampleRate)
+        const barHeight = level * canvas.height
+
+        ctx.fillStyle = gradient
+        ctx.fillRect(i * slotWidth, canvas.height - barHeight, slotWidth - 1, barHeight)
+
+        if (holdPeaks) {
+          peaks[i] = Math.max(level, peaks[i] - PEAK_FALL)
+          ctx.fillStyle = "#f5d0fe"
+          ctx.fillRect(i * slotWidth, canvas.height - peaks[i] * canvas.height - 2, slotWidth - 1, 2)
+        }
+      }
+    }
+
+    const drawLine = (data: Uint8Array, color: string | CanvasGradient, lineWidth: number) => {
+      ctx.beginPath()
+      for (let x = 0; x <= canvas.width; x += 2) {
+        const y = canvas.height - levelAt(data, x / canvas.width, sampleRate) * canvas.height
+        if (x === 0) ctx.moveTo(x, y)
+        else ctx.lineTo(x, y)
+      }
+      ctx.strokeStyle = color
+      ctx.lineWidth = lineWidth * window.devicePixelRatio
+      ctx.stroke()
+    }
+
+    const draw = () => {
+      animationRef.current = requestAnimationFrame(draw)
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+      const data = source === "pre" ? preData : postData
+      analysers.post.getByteFrequencyData(postData)
+      analysers.pre.getByteFrequencyData(preData)
+
+      if (mode === "line") drawLine(data, gradient, 2)
+      else drawBars(data, mode === "peak")
+
+      // The original spectrum is drawn over the processed one for comparison
+      if (source === "compare") drawLine(preData, "rgba(255, 255, 255, 0.6)", 1)
+    }
+
+    draw()
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current)
+      }
+    }
+  }, [analysers, mode, source])
+
+  const optionClass = (selected: boolean) =>
+    `text-xs px-3 py-1 rounded-full transition-colors ${
+      selected
+        ? "bg-gradient-to-r from-purple-500 to-pink-600 text-white"
+        : "bg-purple-800/40 text-purple-200 hover:bg-purple-700/50"
+    }`
+
+  return (
+    <div>
+      <canvas ref={canvasRef} className="w-full h-24 rounded-lg bg-purple-900/30" />
+      <div className="flex flex-wrap justify-between gap-2 mt-2">
+        <div className="flex gap-1">
+          {MODES.map((option) => (
+            <button
+              key={option.value}
+              className={optionClass(mode === option.value)}
+              onClick={() => setMode(option.value)}
+              disabled={!audioUrl}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {SOURCES.map((option) => (
+            <button
+              key={option.value}
+              className={optionClass(source === option.value)}
+              onClick={() => setSource(option.value)}
+              disabled={!audioUrl}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
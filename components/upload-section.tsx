@@ -4,13 +4,37 @@ import type React from "react"
 
 import { useState } from "react"
 import { motion } from "framer-motion"
-import { Upload, FileAudio } from "lucide-react"
+import { Upload, FileAudio, Save } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import SessionStatus from "@/components/session-status"
 import { useAudioContext } from "@/context/audio-context"
+import { isProjectFile, PROJECT_EXTENSION } from "@/lib/project"
 
 export default function UploadSection() {
   const [isDragging, setIsDragging] = useState(false)
-  const { audioFile, setAudioFile } = useAudioContext()
+  const [projectError, setProjectError] = useState<string | null>(null)
+  const { audioFile, audioBuffer, setAudioFile, openProject, saveProject } = useAudioContext()
+
+  // Projects carry their own audio, so they open in place of a plain file
+  const openFile = (file: File) => {
+    setProjectError(null)
+    if (!isProjectFile(file)) {
+      setAudioFile(file)
+      return
+    }
+    openProject(file).catch((error) => {
+      console.error("Error opening project:", error)
+      setProjectError(error instanceof Error ? error.message : "Could not open the project")
+    })
+  }
+
+  const handleSaveProject = () => {
+    setProjectError(null)
+    saveProject().catch((error) => {
+      console.error("Error saving project:", error)
+      setProjectError(error instanceof Error ? error.message : "Could not save the project")
+    })
+  }
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -27,16 +51,18 @@ export default function UploadSection() {
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const droppedFile = e.dataTransfer.files[0]
-      if (droppedFile.type.includes("audio")) {
-        setAudioFile(droppedFile)
+      if (droppedFile.type.includes("audio") || isProjectFile(droppedFile)) {
+        openFile(droppedFile)
       }
     }
   }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setAudioFile(e.target.files[0])
+      openFile(e.target.files[0])
     }
+    // Lets the same file be picked again, e.g. to reopen a project
+    e.target.value = ""
   }
 
   return (
@@ -56,10 +82,18 @@ export default function UploadSection() {
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
         >
-          <input type="file" id="audio-upload" className="hidden" accept="audio/*" onChange={handleFileChange} />
+          <input
+            type="file"
+            id="audio-upload"
+            className="hidden"
+            accept={`audio/*,${PROJECT_EXTENSION}`}
+            onChange={handleFileChange}
+          />
           <FileAudio className="h-12 w-12 text-purple-400 mb-4" />
           <p className="text-white text-center mb-4">Click to upload or drag and drop</p>
-          <p className="text-purple-400 text-sm text-center mb-6">MP3, WAV, FLAC or OGG</p>
+          <p className="text-purple-400 text-sm text-center mb-6">
+            MP3, WAV, FLAC, OGG or a {PROJECT_EXTENSION} project
+          </p>
           <Button
             variant="outline"
             className="border-purple-500 text-purple-400 hover:bg-purple-900/50"
@@ -78,7 +112,19 @@ export default function UploadSection() {
               <div className="h-2 bg-purple-900 rounded-full overflow-hidden">
                 <div className="h-full bg-gradient-to-r from-purple-400 to-pink-500 w-full"></div>
               </div>
-              <p className="text-purple-400 text-sm mt-2">Ready to apply effects</p>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-purple-400 text-sm">Ready to apply effects</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-purple-300 hover:bg-purple-800/50"
+                  title="Save the audio, edits and chains as one file"
+                  onClick={handleSaveProject}
+                  disabled={!audioBuffer}
+                >
+                  <Save className="h-3 w-3 mr-1" /> Save project
+                </Button>
+              </div>
             </div>
           ) : (
             <div className="text-center text-white/60">
@@ -86,6 +132,8 @@ export default function UploadSection() {
               <p className="text-sm mt-2">Upload an audio file to get started</p>
             </div>
           )}
+          {projectError && <p className="text-pink-400 text-sm mt-4">{projectError}</p>}
+          <SessionStatus />
         </div>
       </div>
     </motion.div>
@@ -0,0 +1,62 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState, useSyncExternalStore } from "react"
+import { Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { decodeAudioFile } from "@/lib/audio/offline-render"
+import { getVocoderCarrier, setVocoderCarrier, subscribeVocoderCarrier } from "@/lib/effects"
+
+// Picks the second file a vocoder set to an uploaded carrier plays its bands from
+export default function VocoderCarrier() {
+  const carrier = useSyncExternalStore(subscribeVocoderCarrier, getVocoderCarrier, () => null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setVocoderCarrier({ name: file.name, buffer: await decodeAudioFile(file) })
+      setError(null)
+    } catch (error) {
+      console.error("Error decoding carrier file:", error)
+      setError("That file couldn't be decoded")
+    }
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-purple-200">Carrier File</span>
+        <div className="flex items-center gap-1 min-w-0">
+          <span className="text-white text-xs truncate">{carrier ? carrier.name : "None, using sawtooth"}</span>
+          {carrier && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0 text-purple-300 hover:bg-purple-800/50"
+              title="Remove carrier file"
+              onClick={() => setVocoderCarrier(null)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          <input ref={fileInputRef} type="file" className="hidden" accept="audio/*" onChange={handleFile} />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 text-purple-300 hover:bg-purple-800/50"
+            title="Choose carrier file"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-pink-400 text-xs mt-1">{error}</p>}
+    </div>
+  )
+}
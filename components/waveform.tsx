@@ -0,0 +1,312 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { useAudioContext } from "@/context/audio-context"
+import { getWaveformPeaks, peakRange, type WaveformPeaks } from "@/lib/audio/peaks"
+
+const MAX_ZOOM = 64
+// Seconds covered by one point of the processed envelope
+const ENVELOPE_STEP = 0.05
+// Drags shorter than this count as a click, which places the playhead instead of selecting
+const MIN_SELECTION_PIXELS = 3
+
+export type WaveformSelection = { start: number; end: number }
+
+type WaveformProps = {
+  // When given, dragging selects a time range instead of scrubbing
+  selection?: WaveformSelection | null
+  onSelectionChange?: (selection: WaveformSelection | null) => void
+}
+
+export default function Waveform({ selection, onSelectionChange }: WaveformProps) {
+  const { audioFile, audioBuffer, analysers, isPlaying, currentTime, setCurrentTime, getPlaybackTime } =
+    useAudioContext()
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [viewStart, setViewStart] = useState(0)
+  const [dragging, setDragging] = useState(false)
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const animationRef = useRef<number | null>(null)
+  const envelopeRef = useRef<Float32Array>(new Float32Array(0))
+  const seekingRef = useRef(false)
+  const dragRef = useRef<{ anchor: number; x: number } | null>(null)
+
+  const duration = audioBuffer?.duration ?? 0
+  const visibleDuration = duration / zoom
+  const maxViewStart = Math.max(0, duration - visibleDuration)
+  // While paused only changes redraw, so a seek from the player has to count as one
+  const pausedTime = isPlaying ? null : currentTime
+
+  useEffect(() => {
+    setZoom(1)
+    setViewStart(0)
+  }, [audioFile])
+
+  // Edits swap the buffer, the old peaks stay up until the new ones are ready
+  useEffect(() => {
+    if (!audioBuffer) {
+      setPeaks(null)
+      return
+    }
+
+    setViewStart((start) => Math.min(start, audioBuffer.duration))
+    envelopeRef.current = new Float32Array(Math.ceil(audioBuffer.duration / ENVELOPE_STEP))
+
+    let cancelled = false
+    getWaveformPeaks(audioBuffer)
+      .then((result) => {
+        if (!cancelled) setPeaks(result)
+      })
+      .catch((error) => {
+        console.error("Error computing waveform peaks:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [audioBuffer])
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    if (!isPlaying || seekingRef.current) return
+    if (currentTime < viewStart || currentTime > viewStart + visibleDuration) {
+      setViewStart(Math.min(maxViewStart, currentTime))
+    }
+  }, [currentTime, isPlaying, viewStart, visibleDuration, maxViewStart])
+
+  // Zooms so the time under the cursor stays put
+  const zoomAround = (nextZoom: number, anchor: number) => {
+    const clamped = Math.min(MAX_ZOOM, Math.max(1, nextZoom))
+    const anchorTime = viewStart + anchor * visibleDuration
+    const nextVisible = duration / clamped
+    setZoom(clamped)
+    setViewStart(Math.min(duration - nextVisible, Math.max(0, anchorTime - anchor * nextVisible)))
+  }
+
+  // Registered natively, React's wheel listener is passive and can't stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !duration) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      if (event.ctrlKey || event.metaKey) {
+        const rect = canvas.getBoundingClientRect()
+        zoomAround(zoom * Math.pow(2, -event.deltaY / 200), (event.clientX - rect.left) / rect.width)
+        return
+      }
+      const delta = event.deltaX || event.deltaY
+      setViewStart((start) => Math.min(maxViewStart, Math.max(0, start + (delta / 1000) * visibleDuration)))
+    }
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", handleWheel)
+  })
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    canvas.width = canvas.clientWidth * window.devicePixelRatio
+    canvas.height = canvas.clientHeight * window.devicePixelRatio
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    if (!peaks || !duration) return
+
+    const middle = canvas.height / 2
+    const timeToX = (time: number) => ((time - viewStart) / visibleDuration) * canvas.width
+    const peaksPerSecond = peaks.sampleRate / peaks.samplesPerPeak
+    const peaksPerPixel = (visibleDuration * peaksPerSecond) / canvas.width
+    const firstPeak = viewStart * peaksPerSecond
+    const samples = analysers ? new Float32Array(analysers.post.fftSize) : null
+
+    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height)
+    gradient.addColorStop(0, "#a855f7")
+    gradient.addColorStop(0.5, "#ec4899")
+    gradient.addColorStop(1, "#a855f7")
+
+    // Loudest sample the post-effect analyser currently holds, stored against playback time
+    const captureEnvelope = () => {
+      if (!analysers || !samples || !isPlaying) return
+      analysers.post.getFloatTimeDomainData(samples)
+      let level = 0
+      for (let i = 0; i < samples.length; i++) {
+        level = Math.max(level, Math.abs(samples[i]))
+      }
+      const envelope = envelopeRef.current
+      const index = Math.floor(getPlaybackTime() / ENVELOPE_STEP)
+      if (index < envelope.length) envelope[index] = level
+    }
+
+    const drawEnvelope = () => {
+      const envelope = envelopeRef.current
+      const first = Math.max(0, Math.floor(viewStart / ENVELOPE_STEP))
+      const last = Math.min(envelope.length - 1, Math.ceil((viewStart + visibleDuration) / ENVELOPE_STEP))
+
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.8)"
+      ctx.lineWidth = window.devicePixelRatio
+      for (const sign of [-1, 1]) {
+        ctx.beginPath()
+        let drawing = false
+        for (let i = first; i <= last; i++) {
+          // Unplayed stretches leave gaps rather than dropping to silence
+          if (envelope[i] === 0) {
+            drawing = false
+            continue
+          }
+          const x = timeToX((i + 0.5) * ENVELOPE_STEP)
+          const y = middle - sign * Math.min(1, envelope[i]) * middle
+          if (drawing) ctx.lineTo(x, y)
+          else ctx.moveTo(x, y)
+          drawing = true
+        }
+        ctx.stroke()
+      }
+    }
+
+    const draw = () => {
+      // Frames are only needed while the playhead moves or a drag is in progress
+      if (isPlaying || dragging) animationRef.current = requestAnimationFrame(draw)
+      captureEnvelope()
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+      ctx.fillStyle = gradient
+      for (let x = 0; x < canvas.width; x++) {
+        const [low, high] = peakRange(peaks, firstPeak + x * peaksPerPixel, firstPeak + (x + 1) * peaksPerPixel)
+        const top = middle - high * middle
+        ctx.fillRect(x, top, 1, Math.max(1, middle - low * middle - top))
+      }
+
+      if (selection) {
+        const from = timeToX(selection.start)
+        ctx.fillStyle = "rgba(255, 255, 255, 0.2)"
+        ctx.fillRect(from, 0, timeToX(selection.end) - from, canvas.height)
+      }
+
+      drawEnvelope()
+
+      const playhead = timeToX(getPlaybackTime())
+      if (playhead >= 0 && playhead <= canvas.width) {
+        ctx.fillStyle = "#ffffff"
+        ctx.fillRect(playhead - window.devicePixelRatio / 2, 0, window.devicePixelRatio, canvas.height)
+      }
+    }
+
+    draw()
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current)
+      }
+    }
+  }, [
+    peaks,
+    analysers,
+    isPlaying,
+    dragging,
+    pausedTime,
+    duration,
+    viewStart,
+    visibleDuration,
+    getPlaybackTime,
+    selection,
+  ])
+
+  const timeAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const position = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    return viewStart + position * visibleDuration
+  }
+
+  const seekTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    setCurrentTime(timeAt(event))
+  }
+
+  const selectTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (!drag || !onSelectionChange) return
+    if (Math.abs(event.clientX - drag.x) < MIN_SELECTION_PIXELS) return
+    const time = timeAt(event)
+    onSelectionChange({ start: Math.min(drag.anchor, time), end: Math.max(drag.anchor, time) })
+  }
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        className="w-full h-28 rounded-lg bg-purple-900/30 cursor-pointer touch-none"
+        onPointerDown={(event) => {
+          if (!peaks) return
+          event.currentTarget.setPointerCapture(event.pointerId)
+          setDragging(true)
+          if (onSelectionChange) {
+            dragRef.current = { anchor: timeAt(event), x: event.clientX }
+            return
+          }
+          seekingRef.current = true
+          seekTo(event)
+        }}
+        onPointerMove={(event) => {
+          if (seekingRef.current) seekTo(event)
+          else selectTo(event)
+        }}
+        onPointerUp={(event) => {
+          // A click in edit mode drops the selection and moves the playhead there
+          const drag = dragRef.current
+          if (drag && Math.abs(event.clientX - drag.x) < MIN_SELECTION_PIXELS) {
+            onSelectionChange?.(null)
+            seekTo(event)
+          }
+          dragRef.current = null
+          seekingRef.current = false
+          setDragging(false)
+        }}
+        onPointerCancel={() => {
+          dragRef.current = null
+          seekingRef.current = false
+          setDragging(false)
+        }}
+      />
+      <div className="flex items-center gap-2 mt-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+          title="Zoom out"
+          onClick={() => zoomAround(zoom / 2, 0.5)}
+          disabled={!peaks || zoom <= 1}
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-purple-300 hover:bg-purple-800/50"
+          title="Zoom in"
+          onClick={() => zoomAround(zoom * 2, 0.5)}
+          disabled={!peaks || zoom >= MAX_ZOOM}
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        {zoom > 1 ? (
+          <Slider
+            value={[viewStart]}
+            max={maxViewStart}
+            step={maxViewStart / 1000}
+            onValueChange={([start]) => setViewStart(start)}
+            className="flex-1 mx-2"
+          />
+        ) : (
+          <span className="text-purple-400 text-xs">
+            {audioBuffer && !peaks ? "Analyzing waveform..." : "Ctrl + scroll to zoom"}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
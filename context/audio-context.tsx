@@ -1,13 +1,57 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect, useRef } from "react"
-
-type AudioEffect = {
-  id: number
-  name: string
-  active: boolean
-  apply: (audioContext: AudioContext, source: AudioNode) => AudioNode
+import { createContext, useCallback, useContext, useState, useEffect, useRef } from "react"
+import { decodeAudioFile, renderOffline, resampleBuffer } from "@/lib/audio/offline-render"
+import { replayEdit, type EditOperation, type EditResult } from "@/lib/audio/edit"
+import { encodeWav } from "@/lib/audio/wav"
+import { useHistory } from "@/context/history-context"
+import {
+  bufferToStoredAudio,
+  clearSession,
+  isQuotaError,
+  loadSession,
+  requestPersistentStorage,
+  saveSession,
+  storedAudioToBuffer,
+  type StoredSession,
+} from "@/lib/session"
+import { loadAudioWorklets } from "@/lib/audio/worklets"
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  encodeAudio,
+  resolveExportSampleRate,
+  type ExportSettings,
+} from "@/lib/audio/export-formats"
+import { clampParam } from "@/lib/audio/effect-params"
+import { createProjectFile, projectFilename, readProjectFile } from "@/lib/project"
+import {
+  clampRegionFades,
+  cloneSlot,
+  createChainGraph,
+  createRegion,
+  createRegionGraph,
+  createSlot,
+  describeDroppedEffects,
+  getEffect,
+  getLiveNodeCount,
+  MIN_REGION_LENGTH,
+  remapRegions,
+  type ChainGraph,
+  type EffectDefinition,
+  type EffectRegion,
+  type EffectSlot,
+  type RegionGraph,
+  type ResolvedRegion,
+  type ResolvedSlot,
+} from "@/lib/effects"
+import { normalizeChain } from "@/lib/presets"
+
+export type AnalyserTaps = {
+  // Taps the source before any effect
+  pre: AnalyserNode
+  // Taps the output after the effect chain and volume
+  post: AnalyserNode
 }
 
 type AudioContextType = {
@@ -18,17 +62,79 @@ type AudioContextType = {
   currentTime: number
   duration: number
   setCurrentTime: (time: number) => void
+  // Speed the whole-track chain plays at. Times above are in the audio's own timeline, dividing
+  // them by this gives how long they take to hear.
+  playbackRate: number
+  // Reads the media element directly, for animations that need more than timeupdate's rate
+  getPlaybackTime: () => number
   volume: number
   setVolume: (volume: number) => void
   isMuted: boolean
   toggleMute: () => void
-  availableEffects: AudioEffect[]
-  activeEffects: AudioEffect[]
+  // The chain being edited: the whole-track chain, or the selected region's own chain
+  effectChain: EffectSlot[]
+  activeEffects: EffectDefinition[]
   toggleEffect: (effectId: number) => void
+  removeSlot: (slotId: string) => void
+  duplicateSlot: (slotId: string) => void
+  reorderChain: (slotIds: string[]) => void
+  toggleSlotBypass: (slotId: string) => void
+  setSlotMix: (slotId: string, mix: number) => void
+  setSlotParam: (slotId: string, paramId: string, value: number) => void
+  // Replaces the chain being edited, e.g. with a preset
+  loadChain: (chain: EffectSlot[], label: string) => void
+  regions: EffectRegion[]
+  selectedRegionId: string | null
+  // Picks which chain the chain controls edit, null for the whole track
+  selectRegion: (regionId: string | null) => void
+  addRegion: (start: number, end: number) => void
+  updateRegion: (regionId: string, changes: Partial<Pick<EffectRegion, "start" | "end" | "fadeIn" | "fadeOut">>) => void
+  removeRegion: (regionId: string) => void
   audioUrl: string | null
-  downloadProcessedAudio: () => void
+  // The uploaded file decoded once, then replaced by each destructive edit
+  audioBuffer: AudioBuffer | null
+  // Makes an edited buffer the audio that plays and exports, labelled for the history
+  applyEdit: (edit: EditResult, label: string) => void
+  // The decoded file rendered through the current chain, for offline analysis
+  renderProcessedAudio: () => Promise<AudioBuffer | null>
+  // Renders and downloads the processed track, rejecting when it can't be rendered or encoded
+  downloadProcessedAudio: (settings?: ExportSettings) => Promise<void>
+  // Bundles the original audio, edit list, chains and regions into a .musico file, rejecting when
+  // it can't be written
+  saveProject: () => Promise<void>
+  // Opens a .musico file in place of the current audio, rejecting when it can't be read
+  openProject: (file: File) => Promise<void>
+  exportProgress: number | null
+  liveNodeCount: number
+  analysers: AnalyserTaps | null
+  // Drops the saved session and everything loaded, back to an empty page
+  startFresh: () => void
+  // Set when the session couldn't be saved in full
+  sessionNotice: string | null
+  // Set when a restored session or an opened project held effects that no longer exist
+  chainNotice: string | null
+  // When the session was last written, for refreshing storage figures
+  sessionSavedAt: number | null
+}
+
+// Chain state as one snapshot, which is what chain and region edits undo to
+type ChainSnapshot = {
+  effectChain: EffectSlot[]
+  regions: EffectRegion[]
+}
+
+// Everything a file load replaces, so undoing the load can bring it back
+type Session = ChainSnapshot & {
+  file: File | null
+  // The decoded file, and the current audio which differs from it once edited
+  originalBuffer: AudioBuffer | null
+  buffer: AudioBuffer | null
 }
 
+const DEFAULT_VOLUME = 0.7
+// Chain and volume changes come in bursts while dragging, they're saved once things settle
+const SESSION_SAVE_DELAY = 500
+
 const AudioContext = createContext<AudioContextType | undefined>(undefined)
 
 export function useAudioContext() {
@@ -42,1824 +148,82 @@ export function useAudioContext() {
 export function AudioProvider({ children }: { children: React.ReactNode }) {
   const [audioFile, setAudioFile] = useState<File | null>(null)
   const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(0)
-  const [volume, setVolume] = useState(0.7)
+  const [volume, setVolume] = useState(DEFAULT_VOLUME)
   const [isMuted, setIsMuted] = useState(false)
-  const [activeEffectIds, setActiveEffectIds] = useState<number[]>([])
+  const [effectChain, setEffectChain] = useState<EffectSlot[]>([])
+  const [regions, setRegions] = useState<EffectRegion[]>([])
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null)
   const [audioContextInitialized, setAudioContextInitialized] = useState(false)
-  const [isRecording, setIsRecording] = useState(false)
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  const [liveNodeCount, setLiveNodeCount] = useState(0)
+  const [analysers, setAnalysers] = useState<AnalyserTaps | null>(null)
+  const [sessionRestored, setSessionRestored] = useState(false)
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null)
+  const [chainNotice, setChainNotice] = useState<string | null>(null)
+  const [sessionSavedAt, setSessionSavedAt] = useState<number | null>(null)
 
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null)
   const gainNodeRef = useRef<GainNode | null>(null)
-  const effectNodesRef = useRef<Map<number, AudioNode>>(new Map())
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const recordedChunksRef = useRef<BlobPart[]>([])
-
-  // Define available effects with their implementation
-  const availableEffects: AudioEffect[] = [
-    {
-      id: 1,
-      name: "Bass Boost",
-      active: false,
-      apply: (audioContext, source) => {
-        const filter = audioContext.createBiquadFilter()
-        filter.type = "lowshelf"
-        filter.frequency.value = 100
-        filter.gain.value = 15
-        source.connect(filter)
-        return filter
-      },
-    },
-    {
-      id: 2,
-      name: "8D Audio",
-      active: false,
-      apply: (audioContext, source) => {
-        const panner = audioContext.createStereoPanner()
-
-        // Create oscillation effect with SLOWER speed
-        const oscillationSpeed = 0.03 // Reduced from 0.1 for slower movement
-        let time = 0
-
-        const oscillate = () => {
-          time += oscillationSpeed
-          panner.pan.value = Math.sin(time)
-          requestAnimationFrame(oscillate)
-        }
-
-        oscillate()
-        source.connect(panner)
-        return panner
-      },
-    },
-    {
-      id: 3,
-      name: "Reverb",
-      active: false,
-      apply: (audioContext, source) => {
-        const convolver = audioContext.createConvolver()
-
-        // Create impulse response for reverb
-        const sampleRate = audioContext.sampleRate
-        const length = sampleRate * 3 // 3 seconds
-        const impulse = audioContext.createBuffer(2, length, sampleRate)
-        const leftChannel = impulse.getChannelData(0)
-        const rightChannel = impulse.getChannelData(1)
-
-        for (let i = 0; i < length; i++) {
-          const decay = Math.pow(1 - i / length, 2)
-          leftChannel[i] = (Math.random() * 2 - 1) * decay
-          rightChannel[i] = (Math.random() * 2 - 1) * decay
-        }
-
-        convolver.buffer = impulse
-        source.connect(convolver)
-        return convolver
-      },
-    },
-    {
-      id: 4,
-      name: "Nightcore",
-      active: false,
-      apply: (audioContext, source) => {
-        // For nightcore, we need to adjust playback rate
-        // This is handled separately in the audio element
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 1.3
-        }
-        return source
-      },
-    },
-    {
-      id: 5,
-      name: "Vaporwave",
-      active: false,
-      apply: (audioContext, source) => {
-        // For vaporwave, we slow down playback rate
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 0.8
-        }
-        return source
-      },
-    },
-    {
-      id: 6,
-      name: "Distortion",
-      active: false,
-      apply: (audioContext, source) => {
-        const distortion = audioContext.createWaveShaper()
-
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(400)
-        distortion.oversample = "4x"
-        source.connect(distortion)
-        return distortion
-      },
-    },
-    {
-      id: 7,
-      name: "Telephone",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a bandpass filter to simulate telephone effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 2000
-        lowPass.Q.value = 0.7
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 500
-        highPass.Q.value = 0.7
-
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        return lowPass
-      },
-    },
-    {
-      id: 8,
-      name: "Lo-Fi",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a bitcrusher-like effect for lo-fi
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 3500
-
-        // Add some distortion
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(50)
-        distortion.oversample = "4x"
-
-        source.connect(lowPass)
-        lowPass.connect(distortion)
-        return distortion
-      },
-    },
-    {
-      id: 9,
-      name: "Pitch Shift Up",
-      active: false,
-      apply: (audioContext, source) => {
-        // Simple pitch shift using playback rate
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 1.2
-        }
-        return source
-      },
-    },
-    {
-      id: 10,
-      name: "Pitch Shift Down",
-      active: false,
-      apply: (audioContext, source) => {
-        // Simple pitch shift using playback rate
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 0.85
-        }
-        return source
-      },
-    },
-    {
-      id: 11,
-      name: "Chorus",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a delay node for chorus effect
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.03
-
-        // Create a gain node for the delayed signal
-        const delayGain = audioContext.createGain()
-        delayGain.gain.value = 0.5
-
-        // Create an oscillator for modulation
-        const oscillator = audioContext.createOscillator()
-        oscillator.type = "sine"
-        oscillator.frequency.value = 0.5
-
-        // Create a gain for the oscillator
-        const oscillatorGain = audioContext.createGain()
-        oscillatorGain.gain.value = 0.002
-
-        // Connect the oscillator to the delay time
-        oscillator.connect(oscillatorGain)
-        oscillatorGain.connect(delay.delayTime)
-
-        // Start the oscillator
-        oscillator.start()
-
-        // Connect the source to both the output and the delay
-        source.connect(delay)
-        delay.connect(delayGain)
-
-        // Create a merger to combine the original and delayed signals
-        const merger = audioContext.createGain()
-        source.connect(merger)
-        delayGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 12,
-      name: "Tremolo",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a gain node for amplitude modulation
-        const gain = audioContext.createGain()
-
-        // Create an oscillator for modulation
-        const oscillator = audioContext.createOscillator()
-        oscillator.type = "sine"
-        oscillator.frequency.value = 5 // 5 Hz tremolo
-
-        // Connect the oscillator to the gain
-        oscillator.connect(gain.gain)
-
-        // Set the gain range for tremolo
-        gain.gain.value = 0.5
-
-        // Start the oscillator
-        oscillator.start()
-
-        // Connect the source to the gain
-        source.connect(gain)
-
-        return gain
-      },
-    },
-    {
-      id: 13,
-      name: "Vibrato",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a delay node for vibrato effect
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.005
-
-        // Create an oscillator for modulation
-        const oscillator = audioContext.createOscillator()
-        oscillator.type = "sine"
-        oscillator.frequency.value = 6 // 6 Hz vibrato
-
-        // Create a gain for the oscillator
-        const oscillatorGain = audioContext.createGain()
-        oscillatorGain.gain.value = 0.003
-
-        // Connect the oscillator to the delay time
-        oscillator.connect(oscillatorGain)
-        oscillatorGain.connect(delay.delayTime)
-
-        // Start the oscillator
-        oscillator.start()
-
-        // Connect the source to the delay
-        source.connect(delay)
-
-        return delay
-      },
-    },
-    {
-      id: 14,
-      name: "Compressor",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a compressor node
-        const compressor = audioContext.createDynamicsCompressor()
-        compressor.threshold.value = -24
-        compressor.knee.value = 30
-        compressor.ratio.value = 12
-        compressor.attack.value = 0.003
-        compressor.release.value = 0.25
-
-        // Connect the source to the compressor
-        source.connect(compressor)
-
-        return compressor
-      },
-    },
-    {
-      id: 15,
-      name: "Delay",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a delay node
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.3
-
-        // Create a feedback gain
-        const feedback = audioContext.createGain()
-        feedback.gain.value = 0.4
-
-        // Create a dry/wet mix
-        const dryGain = audioContext.createGain()
-        dryGain.gain.value = 0.6
-
-        const wetGain = audioContext.createGain()
-        wetGain.gain.value = 0.4
-
-        // Connect the nodes
-        source.connect(dryGain)
-        source.connect(delay)
-        delay.connect(feedback)
-        feedback.connect(delay)
-        delay.connect(wetGain)
-
-        // Create a merger to combine the dry and wet signals
-        const merger = audioContext.createGain()
-        dryGain.connect(merger)
-        wetGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 16,
-      name: "Stereo Widener",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a stereo panner
-        const leftPanner = audioContext.createStereoPanner()
-        leftPanner.pan.value = -1
-
-        const rightPanner = audioContext.createStereoPanner()
-        rightPanner.pan.value = 1
-
-        // Create phase shifter for right channel
-        const rightDelay = audioContext.createDelay()
-        rightDelay.delayTime.value = 0.01
-
-        // Connect the source to both panners
-        source.connect(leftPanner)
-        source.connect(rightDelay)
-        rightDelay.connect(rightPanner)
-
-        // Create a merger to combine the left and right signals
-        const merger = audioContext.createGain()
-        leftPanner.connect(merger)
-        rightPanner.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 17,
-      name: "Vinyl",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a filter for vinyl sound
-        const filter = audioContext.createBiquadFilter()
-        filter.type = "lowpass"
-        filter.frequency.value = 8000
-
-        // Create a gain node for noise
-        const noiseGain = audioContext.createGain()
-        noiseGain.gain.value = 0.01
-
-        // Create a buffer for noise
-        const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
-
-        // Fill the buffer with noise
-        for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
-          const data = noiseBuffer.getChannelData(channel)
-          for (let i = 0; i < data.length; i++) {
-            data[i] = Math.random() * 2 - 1
-          }
-        }
-
-        // Create a buffer source for noise
-        const noise = audioContext.createBufferSource()
-        noise.buffer = noiseBuffer
-        noise.loop = true
-        noise.start()
-
-        // Connect the noise to the gain
-        noise.connect(noiseGain)
-
-        // Connect the source to the filter
-        source.connect(filter)
-
-        // Create a merger to combine the filtered signal and noise
-        const merger = audioContext.createGain()
-        filter.connect(merger)
-        noiseGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 18,
-      name: "AM Radio",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create filters for AM radio sound
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 4000
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 500
-
-        // Create a gain node for distortion
-        const distortion = audioContext.createWaveShaper()
-
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(20)
-
-        // Connect the nodes
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        lowPass.connect(distortion)
-
-        return distortion
-      },
-    },
-    {
-      id: 19,
-      name: "Bitcrusher",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a script processor for bit crushing
-        const bufferSize = 4096
-        const bitDepth = 4 // 4-bit
-        const normalizationFactor = Math.pow(2, bitDepth - 1)
-
-        // Use worklet if available, fallback to script processor
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            for (let i = 0; i < inputData.length; i++) {
-              // Reduce bit depth
-              outputData[i] = Math.round(inputData[i] * normalizationFactor) / normalizationFactor
-
-              // Reduce sample rate (every 4th sample)
-              if (i % 4 !== 0) {
-                outputData[i] = outputData[i - (i % 4)]
-              }
-            }
-          }
-        }
-
-        source.connect(scriptProcessor)
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 20,
-      name: "Underwater",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create filters for underwater sound
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 1000
-        lowPass.Q.value = 2
-
-        // Create a reverb for underwater ambience
-        const convolver = audioContext.createConvolver()
-
-        // Create impulse response for underwater reverb
-        const sampleRate = audioContext.sampleRate
-        const length = sampleRate * 2 // 2 seconds
-        const impulse = audioContext.createBuffer(2, length, sampleRate)
-        const leftChannel = impulse.getChannelData(0)
-        const rightChannel = impulse.getChannelData(1)
-
-        for (let i = 0; i < length; i++) {
-          const decay = Math.pow(1 - i / length, 1.5)
-          leftChannel[i] = (Math.random() * 2 - 1) * decay
-          rightChannel[i] = (Math.random() * 2 - 1) * decay
-        }
-
-        convolver.buffer = impulse
-
-        // Connect the nodes
-        source.connect(lowPass)
-        lowPass.connect(convolver)
-
-        return convolver
-      },
-    },
-    {
-      id: 21,
-      name: "Auto-Tune",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple auto-tune effect using a biquad filter
-        const filter = audioContext.createBiquadFilter()
-        filter.type = "peaking"
-        filter.frequency.value = 440 // A4 note
-        filter.Q.value = 10
-        filter.gain.value = 15
-
-        source.connect(filter)
-        return filter
-      },
-    },
-    {
-      id: 22,
-      name: "Vocoder",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple vocoder-like effect
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 1000
-
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(100)
-
-        source.connect(highPass)
-        highPass.connect(distortion)
-
-        return distortion
-      },
-    },
-    {
-      id: 23,
-      name: "Harmonizer",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple harmonizer effect
-        const pitchUp = audioContext.createGain()
-        const pitchDown = audioContext.createGain()
-
-        // Create a delay for each harmony
-        const delayUp = audioContext.createDelay()
-        delayUp.delayTime.value = 0.01
-
-        const delayDown = audioContext.createDelay()
-        delayDown.delayTime.value = 0.02
-
-        // Set gains for the harmonies
-        pitchUp.gain.value = 0.5
-        pitchDown.gain.value = 0.5
-
-        // Connect the source to the delays
-        source.connect(delayUp)
-        source.connect(delayDown)
-
-        // Connect the delays to the gains
-        delayUp.connect(pitchUp)
-        delayDown.connect(pitchDown)
-
-        // Create a merger to combine the original and harmonies
-        const merger = audioContext.createGain()
-        source.connect(merger)
-        pitchUp.connect(merger)
-        pitchDown.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 24,
-      name: "Voice Changer",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a voice changer effect
-        const pitchShift = audioContext.createBiquadFilter()
-        pitchShift.type = "allpass"
-        pitchShift.frequency.value = 700
-        pitchShift.Q.value = 10
-
-        const formantShift = audioContext.createBiquadFilter()
-        formantShift.type = "peaking"
-        formantShift.frequency.value = 1500
-        formantShift.Q.value = 5
-        formantShift.gain.value = 10
-
-        source.connect(pitchShift)
-        pitchShift.connect(formantShift)
-
-        return formantShift
-      },
-    },
-    {
-      id: 25,
-      name: "Whisper",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a whisper effect
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 1000
-
-        const gain = audioContext.createGain()
-        gain.gain.value = 0.3
-
-        // Add some noise
-        const noiseGain = audioContext.createGain()
-        noiseGain.gain.value = 0.05
-
-        const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
-
-        for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
-          const data = noiseBuffer.getChannelData(channel)
-          for (let i = 0; i < data.length; i++) {
-            data[i] = Math.random() * 2 - 1
-          }
-        }
-
-        const noise = audioContext.createBufferSource()
-        noise.buffer = noiseBuffer
-        noise.loop = true
-        noise.start()
-
-        noise.connect(noiseGain)
-
-        source.connect(highPass)
-        highPass.connect(gain)
-
-        const merger = audioContext.createGain()
-        gain.connect(merger)
-        noiseGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 26,
-      name: "Megaphone",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a megaphone effect
-        const bandpass = audioContext.createBiquadFilter()
-        bandpass.type = "bandpass"
-        bandpass.frequency.value = 1800
-        bandpass.Q.value = 0.7
-
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(50)
-
-        const gain = audioContext.createGain()
-        gain.gain.value = 1.5
-
-        source.connect(bandpass)
-        bandpass.connect(distortion)
-        distortion.connect(gain)
-
-        return gain
-      },
-    },
-    {
-      id: 27,
-      name: "Chipmunk",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a chipmunk effect
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 1.5
-        }
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 500
-
-        source.connect(highPass)
-
-        return highPass
-      },
-    },
-    {
-      id: 28,
-      name: "Monster Voice",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a monster voice effect
-        if (audioRef.current) {
-          audioRef.current.playbackRate = 0.7
-        }
-
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 300
-
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(100)
-
-        source.connect(lowPass)
-        lowPass.connect(distortion)
-
-        return distortion
-      },
-    },
-    {
-      id: 29,
-      name: "Mono to Stereo",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a mono to stereo effect
-        const leftDelay = audioContext.createDelay()
-        leftDelay.delayTime.value = 0.01
-
-        const rightDelay = audioContext.createDelay()
-        rightDelay.delayTime.value = 0.02
-
-        const leftGain = audioContext.createGain()
-        leftGain.gain.value = 0.8
-
-        const rightGain = audioContext.createGain()
-        rightGain.gain.value = 0.8
-
-        const leftPanner = audioContext.createStereoPanner()
-        leftPanner.pan.value = -0.8
-
-        const rightPanner = audioContext.createStereoPanner()
-        rightPanner.pan.value = 0.8
-
-        source.connect(leftDelay)
-        source.connect(rightDelay)
-
-        leftDelay.connect(leftGain)
-        rightDelay.connect(rightGain)
-
-        leftGain.connect(leftPanner)
-        rightGain.connect(rightPanner)
-
-        const merger = audioContext.createGain()
-        leftPanner.connect(merger)
-        rightPanner.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 30,
-      name: "Binaural Beat",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a binaural beat effect
-        const leftOsc = audioContext.createOscillator()
-        leftOsc.frequency.value = 200
-        leftOsc.type = "sine"
-
-        const rightOsc = audioContext.createOscillator()
-        rightOsc.frequency.value = 210 // 10 Hz difference
-        rightOsc.type = "sine"
-
-        const leftGain = audioContext.createGain()
-        leftGain.gain.value = 0.1
-
-        const rightGain = audioContext.createGain()
-        rightGain.gain.value = 0.1
-
-        const leftPanner = audioContext.createStereoPanner()
-        leftPanner.pan.value = -1
-
-        const rightPanner = audioContext.createStereoPanner()
-        rightPanner.pan.value = 1
-
-        leftOsc.connect(leftGain)
-        rightOsc.connect(rightGain)
-
-        leftGain.connect(leftPanner)
-        rightGain.connect(rightPanner)
-
-        leftOsc.start()
-        rightOsc.start()
-
-        const merger = audioContext.createGain()
-        source.connect(merger)
-        leftPanner.connect(merger)
-        rightPanner.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 31,
-      name: "Ambisonic",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple ambisonic-like effect
-        const frontLeft = audioContext.createStereoPanner()
-        frontLeft.pan.value = -0.7
-
-        const frontRight = audioContext.createStereoPanner()
-        frontRight.pan.value = 0.7
-
-        const rearLeft = audioContext.createStereoPanner()
-        rearLeft.pan.value = -1
-
-        const rearRight = audioContext.createStereoPanner()
-        rearRight.pan.value = 1
-
-        const frontLeftDelay = audioContext.createDelay()
-        frontLeftDelay.delayTime.value = 0.01
-
-        const frontRightDelay = audioContext.createDelay()
-        frontRightDelay.delayTime.value = 0.01
-
-        const rearLeftDelay = audioContext.createDelay()
-        rearLeftDelay.delayTime.value = 0.02
-
-        const rearRightDelay = audioContext.createDelay()
-        rearRightDelay.delayTime.value = 0.02
-
-        source.connect(frontLeftDelay)
-        source.connect(frontRightDelay)
-        source.connect(rearLeftDelay)
-        source.connect(rearRightDelay)
-
-        frontLeftDelay.connect(frontLeft)
-        frontRightDelay.connect(frontRight)
-        rearLeftDelay.connect(rearLeft)
-        rearRightDelay.connect(rearRight)
-
-        const merger = audioContext.createGain()
-        frontLeft.connect(merger)
-        frontRight.connect(merger)
-        rearLeft.connect(merger)
-        rearRight.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 32,
-      name: "HRTF",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple HRTF-like effect
-        const panner = audioContext.createPanner()
-        panner.panningModel = "HRTF"
-        panner.distanceModel = "inverse"
-        panner.refDistance = 1
-        panner.maxDistance = 10000
-        panner.rolloffFactor = 1
-        panner.coneInnerAngle = 360
-        panner.coneOuterAngle = 360
-        panner.coneOuterGain = 0
-
-        // Position the panner in 3D space
-        panner.positionX.value = 0
-        panner.positionY.value = 0
-        panner.positionZ.value = -1
-
-        // Create an oscillator to move the sound source
-        const oscillator = audioContext.createOscillator()
-        oscillator.frequency.value = 0.1
-
-        const oscillatorGain = audioContext.createGain()
-        oscillatorGain.gain.value = 2
-
-        oscillator.connect(oscillatorGain)
-        oscillatorGain.connect(panner.positionX)
-
-        oscillator.start()
-
-        source.connect(panner)
-
-        return panner
-      },
-    },
-    {
-      id: 33,
-      name: "Tape Saturation",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a tape saturation effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 7500
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 20
-
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            // Soft clipping function
-            curve[i] = Math.tanh(k * x) / Math.tanh(k)
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(2)
-        distortion.oversample = "4x"
-
-        source.connect(highPass)
-        highPass.connect(distortion)
-        distortion.connect(lowPass)
-
-        return lowPass
-      },
-    },
-    {
-      id: 34,
-      name: "Cassette",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a cassette tape effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 6000
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 100
-
-        // Add wow and flutter
-        const oscillator = audioContext.createOscillator()
-        oscillator.type = "sine"
-        oscillator.frequency.value = 0.5 // 0.5 Hz for wow
-
-        const oscillatorGain = audioContext.createGain()
-        oscillatorGain.gain.value = 0.005
-
-        // Create a delay for pitch variation
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.01
-
-        oscillator.connect(oscillatorGain)
-        oscillatorGain.connect(delay.delayTime)
-        oscillator.start()
-
-        // Add noise
-        const noiseGain = audioContext.createGain()
-        noiseGain.gain.value = 0.01
-
-        const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
-
-        for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
-          const data = noiseBuffer.getChannelData(channel)
-          for (let i = 0; i < data.length; i++) {
-            data[i] = Math.random() * 2 - 1
-          }
-        }
-
-        const noise = audioContext.createBufferSource()
-        noise.buffer = noiseBuffer
-        noise.loop = true
-        noise.start()
-
-        noise.connect(noiseGain)
-
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        lowPass.connect(delay)
-
-        const merger = audioContext.createGain()
-        delay.connect(merger)
-        noiseGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 35,
-      name: "VHS Audio",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a VHS audio effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 5000
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 150
-
-        // Add tracking noise
-        const noiseGain = audioContext.createGain()
-        noiseGain.gain.value = 0.02
-
-        const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
-
-        for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
-          const data = noiseBuffer.getChannelData(channel)
-          for (let i = 0; i < data.length; i++) {
-            data[i] = Math.random() * 2 - 1
-          }
-        }
-
-        const noise = audioContext.createBufferSource()
-        noise.buffer = noiseBuffer
-        noise.loop = true
-        noise.start()
-
-        // Add dropouts
-        const dropoutOscillator = audioContext.createOscillator()
-        dropoutOscillator.type = "square"
-        dropoutOscillator.frequency.value = 0.1
-
-        const dropoutGain = audioContext.createGain()
-        dropoutGain.gain.value = 0.95
-
-        dropoutOscillator.connect(dropoutGain.gain)
-        dropoutOscillator.start()
-
-        noise.connect(noiseGain)
-
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        lowPass.connect(dropoutGain)
-
-        const merger = audioContext.createGain()
-        dropoutGain.connect(merger)
-        noiseGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 36,
-      name: "Granular",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a simple granular effect
-        const bufferSize = 4096
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        const grainSize = 0.1 // 100ms grains
-        const grainSpacing = 0.05 // 50ms between grains
-        let grainPointer = 0
-        const grainBuffer = new Float32Array(audioContext.sampleRate * grainSize)
-        let isRecording = true
-        let recordingPointer = 0
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            for (let i = 0; i < inputData.length; i++) {
-              // Record into grain buffer
-              if (isRecording) {
-                grainBuffer[recordingPointer] = inputData[i]
-                recordingPointer++
-
-                if (recordingPointer >= grainBuffer.length) {
-                  isRecording = false
-                  recordingPointer = 0
-                  grainPointer = 0
-                }
-              }
-
-              // Play from grain buffer
-              if (!isRecording) {
-                outputData[i] = grainBuffer[grainPointer]
-                grainPointer++
-
-                if (grainPointer >= grainBuffer.length) {
-                  grainPointer = 0
-
-                  // Add random offset for granular effect
-                  const randomOffset = Math.floor(Math.random() * grainBuffer.length * 0.1)
-                  grainPointer = randomOffset
-
-                  // Occasionally switch back to recording
-                  if (Math.random() < 0.1) {
-                    isRecording = true
-                  }
-                }
-              } else {
-                outputData[i] = inputData[i]
-              }
-            }
-          }
-        }
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 37,
-      name: "Reverse",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a reverse effect
-        const bufferSize = 8192
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        const buffer = new Float32Array(bufferSize)
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            // Copy input to buffer
-            for (let i = 0; i < inputData.length; i++) {
-              buffer[i] = inputData[i]
-            }
-
-            // Write buffer in reverse to output
-            for (let i = 0; i < outputData.length; i++) {
-              outputData[i] = buffer[buffer.length - 1 - i]
-            }
-          }
-        }
-
-        source.connect(scriptProcessor)
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 38,
-      name: "Glitch",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a glitch effect
-        const bufferSize = 4096
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        const buffer = new Float32Array(bufferSize)
-        let glitchActive = false
-        let glitchCounter = 0
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            // Randomly activate glitch
-            if (Math.random() < 0.05) {
-              glitchActive = true
-              glitchCounter = Math.floor(Math.random() * 10) + 1
-            }
-
-            if (glitchActive) {
-              // Copy input to buffer
-              for (let i = 0; i < inputData.length; i++) {
-                buffer[i] = inputData[i]
-              }
-
-              // Apply glitch effects
-              for (let i = 0; i < outputData.length; i++) {
-                // Random sample repeats
-                if (Math.random() < 0.2) {
-                  const repeatLength = Math.floor(Math.random() * 20) + 1
-                  const repeatStart = Math.floor(Math.random() * (buffer.length - repeatLength))
-
-                  for (let j = 0; j < repeatLength; j++) {
-                    if (i + j < outputData.length) {
-                      outputData[i + j] = buffer[repeatStart + j]
-                    }
-                  }
-
-                  i += repeatLength - 1
-                } else {
-                  outputData[i] = buffer[i]
-                }
-              }
-
-              glitchCounter--
-              if (glitchCounter <= 0) {
-                glitchActive = false
-              }
-            } else {
-              // Normal processing
-              for (let i = 0; i < outputData.length; i++) {
-                outputData[i] = inputData[i]
-              }
-            }
-          }
-        }
-
-        source.connect(scriptProcessor)
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 39,
-      name: "Stutter",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a stutter effect
-        const bufferSize = 4096
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        const buffer = new Float32Array(bufferSize)
-        let stutterActive = false
-        let stutterCounter = 0
-        let stutterRate = 4 // Repeat every 4 samples
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            // Randomly activate stutter
-            if (Math.random() < 0.1 && !stutterActive) {
-              stutterActive = true
-              stutterCounter = Math.floor(Math.random() * 20) + 10
-              stutterRate = Math.pow(2, Math.floor(Math.random() * 4) + 2) // 4, 8, 16, or 32
-
-              // Copy input to buffer
-              for (let i = 0; i < inputData.length; i++) {
-                buffer[i] = inputData[i]
-              }
-            }
-
-            if (stutterActive) {
-              // Apply stutter effect
-              for (let i = 0; i < outputData.length; i++) {
-                outputData[i] = buffer[Math.floor(i / stutterRate) * stutterRate]
-              }
-
-              stutterCounter--
-              if (stutterCounter <= 0) {
-                stutterActive = false
-              }
-            } else {
-              // Normal processing
-              for (let i = 0; i < outputData.length; i++) {
-                outputData[i] = inputData[i]
-              }
-            }
-          }
-        }
-
-        source.connect(scriptProcessor)
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 40,
-      name: "Time Stretch",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a time stretch effect
-        if (audioRef.current) {
-          // Slow down without changing pitch
-          audioRef.current.playbackRate = 0.7
-        }
-
-        return source
-      },
-    },
-    {
-      id: 41,
-      name: "Formant Shift",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a formant shift effect
-        const formant1 = audioContext.createBiquadFilter()
-        formant1.type = "peaking"
-        formant1.frequency.value = 700 // First formant
-        formant1.Q.value = 5
-        formant1.gain.value = 10
-
-        const formant2 = audioContext.createBiquadFilter()
-        formant2.type = "peaking"
-        formant2.frequency.value = 1200 // Second formant
-        formant2.Q.value = 5
-        formant2.gain.value = -5
-
-        const formant3 = audioContext.createBiquadFilter()
-        formant3.type = "peaking"
-        formant3.frequency.value = 2500 // Third formant
-        formant3.Q.value = 5
-        formant3.gain.value = 8
-
-        source.connect(formant1)
-        formant1.connect(formant2)
-        formant2.connect(formant3)
-
-        return formant3
-      },
-    },
-    {
-      id: 42,
-      name: "Autotune Extreme",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create an extreme autotune effect
-        const filter1 = audioContext.createBiquadFilter()
-        filter1.type = "peaking"
-        filter1.frequency.value = 440 // A4
-        filter1.Q.value = 30
-        filter1.gain.value = 20
-
-        const filter2 = audioContext.createBiquadFilter()
-        filter2.type = "peaking"
-        filter2.frequency.value = 523.25 // C5
-        filter2.Q.value = 30
-        filter2.gain.value = 20
-
-        const filter3 = audioContext.createBiquadFilter()
-        filter3.type = "peaking"
-        filter3.frequency.value = 659.25 // E5
-        filter3.Q.value = 30
-        filter3.gain.value = 20
-
-        source.connect(filter1)
-        filter1.connect(filter2)
-        filter2.connect(filter3)
-
-        return filter3
-      },
-    },
-    {
-      id: 43,
-      name: "Bluetooth Quality",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a bluetooth quality effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 4000
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 200
-
-        // Add compression
-        const compressor = audioContext.createDynamicsCompressor()
-        compressor.threshold.value = -20
-        compressor.knee.value = 5
-        compressor.ratio.value = 12
-        compressor.attack.value = 0
-        compressor.release.value = 0.25
-
-        // Add artifacts
-        const bufferSize = 4096
-        const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-
-        scriptProcessor.onaudioprocess = (event) => {
-          const inputBuffer = event.inputBuffer
-          const outputBuffer = event.outputBuffer
-
-          for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-            const inputData = inputBuffer.getChannelData(channel)
-            const outputData = outputBuffer.getChannelData(channel)
-
-            for (let i = 0; i < inputData.length; i++) {
-              // Randomly drop samples
-              if (Math.random() < 0.01) {
-                outputData[i] = 0
-              } else {
-                outputData[i] = inputData[i]
-              }
-            }
-          }
-        }
-
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        lowPass.connect(compressor)
-        compressor.connect(scriptProcessor)
-
-        return scriptProcessor
-      },
-    },
-    {
-      id: 44,
-      name: "Phone Call",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a phone call effect
-        const lowPass = audioContext.createBiquadFilter()
-        lowPass.type = "lowpass"
-        lowPass.frequency.value = 3000
-
-        const highPass = audioContext.createBiquadFilter()
-        highPass.type = "highpass"
-        highPass.frequency.value = 300
-
-        // Add compression
-        const compressor = audioContext.createDynamicsCompressor()
-        compressor.threshold.value = -15
-        compressor.knee.value = 5
-        compressor.ratio.value = 12
-        compressor.attack.value = 0
-        compressor.release.value = 0.25
-
-        // Add noise
-        const noiseGain = audioContext.createGain()
-        noiseGain.gain.value = 0.01
-
-        const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
-
-        for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
-          const data = noiseBuffer.getChannelData(channel)
-          for (let i = 0; i < data.length; i++) {
-            data[i] = Math.random() * 2 - 1
-          }
-        }
-
-        const noise = audioContext.createBufferSource()
-        noise.buffer = noiseBuffer
-        noise.loop = true
-        noise.start()
-
-        noise.connect(noiseGain)
-
-        source.connect(highPass)
-        highPass.connect(lowPass)
-        lowPass.connect(compressor)
-
-        const merger = audioContext.createGain()
-        compressor.connect(merger)
-        noiseGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 45,
-      name: "Stadium Echo",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a stadium echo effect
-        const convolver = audioContext.createConvolver()
-
-        // Create impulse response for stadium
-        const sampleRate = audioContext.sampleRate
-        const length = sampleRate * 5 // 5 seconds
-        const impulse = audioContext.createBuffer(2, length, sampleRate)
-        const leftChannel = impulse.getChannelData(0)
-        const rightChannel = impulse.getChannelData(1)
-
-        // Create multiple echoes
-        const echoes = [
-          { delay: 0.8, gain: 0.7 },
-          { delay: 1.2, gain: 0.5 },
-          { delay: 1.8, gain: 0.3 },
-          { delay: 2.5, gain: 0.2 },
-          { delay: 3.5, gain: 0.1 },
-        ]
-
-        // Fill the impulse buffer with echoes
-        for (let i = 0; i < length; i++) {
-          leftChannel[i] = 0
-          rightChannel[i] = 0
-        }
-
-        // Add the direct sound
-        leftChannel[0] = 1
-        rightChannel[0] = 1
-
-        // Add the echoes
-        for (const echo of echoes) {
-          const delaySamples = Math.floor(echo.delay * sampleRate)
-          if (delaySamples < length) {
-            leftChannel[delaySamples] = echo.gain * (Math.random() * 0.2 + 0.9) // Slight randomization
-            rightChannel[delaySamples] = echo.gain * (Math.random() * 0.2 + 0.9)
-          }
-        }
-
-        convolver.buffer = impulse
-
-        // Mix dry and wet signals
-        const dryGain = audioContext.createGain()
-        dryGain.gain.value = 0.5
-
-        const wetGain = audioContext.createGain()
-        wetGain.gain.value = 0.5
-
-        source.connect(dryGain)
-        source.connect(convolver)
-        convolver.connect(wetGain)
-
-        const merger = audioContext.createGain()
-        dryGain.connect(merger)
-        wetGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 46,
-      name: "Cathedral",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a cathedral reverb effect
-        const convolver = audioContext.createConvolver()
-
-        // Create impulse response for cathedral
-        const sampleRate = audioContext.sampleRate
-        const length = sampleRate * 8 // 8 seconds
-        const impulse = audioContext.createBuffer(2, length, sampleRate)
-        const leftChannel = impulse.getChannelData(0)
-        const rightChannel = impulse.getChannelData(1)
-
-        // Fill the impulse buffer with a cathedral-like reverb
-        for (let i = 0; i < length; i++) {
-          const t = i / sampleRate
-          const decay = Math.exp(-t * 0.5) // Slow decay
-
-          // Add some early reflections
-          if (i < sampleRate * 0.1) {
-            const earlyReflections = Math.random() * 0.5 + 0.5
-            leftChannel[i] = earlyReflections * decay
-            rightChannel[i] = earlyReflections * decay
-          } else {
-            leftChannel[i] = (Math.random() * 2 - 1) * decay * 0.5
-            rightChannel[i] = (Math.random() * 2 - 1) * decay * 0.5
-          }
-        }
-
-        convolver.buffer = impulse
-
-        // Mix dry and wet signals
-        const dryGain = audioContext.createGain()
-        dryGain.gain.value = 0.3
-
-        const wetGain = audioContext.createGain()
-        wetGain.gain.value = 0.7
-
-        source.connect(dryGain)
-        source.connect(convolver)
-        convolver.connect(wetGain)
-
-        const merger = audioContext.createGain()
-        dryGain.connect(merger)
-        wetGain.connect(merger)
-
-        return merger
-      },
-    },
-    {
-      id: 47,
-      name: "Random FX",
-      active: false,
-      apply: (audioContext, source) => {
-        // Apply 3 random effects from the available effects
-        const availableEffectsCopy = [...availableEffects].filter((effect) => effect.id !== 47) // Exclude self
-
-        // Shuffle and take first 3
-        for (let i = availableEffectsCopy.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1))
-          ;[availableEffectsCopy[i], availableEffectsCopy[j]] = [availableEffectsCopy[j], availableEffectsCopy[i]]
-        }
-
-        const selectedEffects = availableEffectsCopy.slice(0, 3)
-
-        // Apply the selected effects in sequence
-        let currentNode = source
-
-        for (const effect of selectedEffects) {
-          currentNode = effect.apply(audioContext, currentNode)
-        }
-
-        return currentNode
-      },
-    },
-    {
-      id: 48,
-      name: "Custom Chain",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a predefined chain of effects
-        // Reverb -> Distortion -> Delay
-
-        // Reverb
-        const convolver = audioContext.createConvolver()
-        const sampleRate = audioContext.sampleRate
-        const length = sampleRate * 2
-        const impulse = audioContext.createBuffer(2, length, sampleRate)
-        const leftChannel = impulse.getChannelData(0)
-        const rightChannel = impulse.getChannelData(1)
-
-        for (let i = 0; i < length; i++) {
-          const decay = Math.pow(1 - i / length, 2)
-          leftChannel[i] = (Math.random() * 2 - 1) * decay
-          rightChannel[i] = (Math.random() * 2 - 1) * decay
-        }
-
-        convolver.buffer = impulse
-
-        // Distortion
-        const distortion = audioContext.createWaveShaper()
-        function makeDistortionCurve(amount = 50) {
-          const k = amount
-          const n_samples = 44100
-          const curve = new Float32Array(n_samples)
-          const deg = Math.PI / 180
-
-          for (let i = 0; i < n_samples; ++i) {
-            const x = (i * 2) / n_samples - 1
-            curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
-          }
-          return curve
-        }
-
-        distortion.curve = makeDistortionCurve(50)
-        distortion.oversample = "4x"
-
-        // Delay
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.3
-
-        const feedback = audioContext.createGain()
-        feedback.gain.value = 0.3
-
-        // Connect the chain
-        source.connect(convolver)
-        convolver.connect(distortion)
-        distortion.connect(delay)
-        delay.connect(feedback)
-        feedback.connect(delay)
-
-        return delay
-      },
-    },
-    {
-      id: 49,
-      name: "Pitch Stretch",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a pitch stretch effect (pitch without changing speed)
-        // This is a simplified version since true pitch shifting without time change
-        // requires more complex algorithms
-
-        // Create a simple formant shifter
-        const formant1 = audioContext.createBiquadFilter()
-        formant1.type = "peaking"
-        formant1.frequency.value = 500
-        formant1.Q.value = 5
-        formant1.gain.value = 10
-
-        const formant2 = audioContext.createBiquadFilter()
-        formant2.type = "peaking"
-        formant2.frequency.value = 1500
-        formant2.Q.value = 5
-        formant2.gain.value = 5
-
-        source.connect(formant1)
-        formant1.connect(formant2)
-
-        return formant2
-      },
-    },
-    {
-      id: 50,
-      name: "Flanger",
-      active: false,
-      apply: (audioContext, source) => {
-        // Create a flanger effect
-        const delay = audioContext.createDelay()
-        delay.delayTime.value = 0.005 // 5ms initial delay
-
-        // Create an oscillator for modulation
-        const oscillator = audioContext.createOscillator()
-        oscillator.type = "sine"
-        oscillator.frequency.value = 0.2 // 0.2 Hz - slow sweep
-
-        // Create a gain for the oscillator
-        const oscillatorGain = audioContext.createGain()
-        oscillatorGain.gain.value = 0.003 // Modulation depth
-
-        // Connect the oscillator to the delay time
-        oscillator.connect(oscillatorGain)
-        oscillatorGain.connect(delay.delayTime)
-
-        // Start the oscillator
-        oscillator.start()
-
-        // Create a feedback loop
-        const feedback = audioContext.createGain()
-        feedback.gain.value = 0.5 // 50% feedback
-
-        // Create a mix of dry and wet signals
-        const dryGain = audioContext.createGain()
-        dryGain.gain.value = 0.5
-
-        const wetGain = audioContext.createGain()
-        wetGain.gain.value = 0.5
-
-        // Connect everything
-        source.connect(dryGain)
-        source.connect(delay)
-        delay.connect(feedback)
-        feedback.connect(delay)
-        delay.connect(wetGain)
-
-        // Create a merger to combine the dry and wet signals
-        const merger = audioContext.createGain()
-        dryGain.connect(merger)
-        wetGain.connect(merger)
-
-        return merger
-      },
-    },
-  ]
-
-  // Get active effects
-  const activeEffects = availableEffects.filter((effect) => activeEffectIds.includes(effect.id))
+  const chainGraphRef = useRef<ChainGraph | null>(null)
+  const regionGraphRef = useRef<RegionGraph | null>(null)
+  const originalBufferRef = useRef<AudioBuffer | null>(null)
+  const mediaUrlRef = useRef<string | null>(null)
+  const pendingSessionRef = useRef<Session | null>(null)
+  // Where a restored session left the playhead, applied once the media has loaded
+  const pendingSeekRef = useRef<number | null>(null)
+  // The edits that turned the original into each buffer, so undo and redo carry them along
+  const editListsRef = useRef(new WeakMap<AudioBuffer, EditOperation[]>())
+
+  const { record, clear: clearHistory } = useHistory()
+
+  // Every slot in chain order; bypassed ones stay in the graph so they can be toggled instantly
+  const resolveChain = (chain: EffectSlot[]) =>
+    chain.flatMap((slot): ResolvedSlot[] => {
+      const effect = getEffect(slot.effectId)
+      return effect ? [{ ...slot, effect }] : []
+    })
+  const chainSlots = resolveChain(effectChain)
+  // Region chains can't change the speed of part of the track, so speed effects that made it into one
+  // (from a preset or an older project) pass the audio through there instead of half applying
+  const resolvedRegions = regions.map(
+    (region): ResolvedRegion => ({
+      ...region,
+      slots: resolveChain(region.chain).filter((slot) => !slot.effect.playbackRate),
+    }),
+  )
+  const activeSlots = chainSlots.filter((slot) => !slot.bypassed)
+  const activeEffects = activeSlots.map((slot) => slot.effect)
+
+  // Parameter, mix and bypass changes are applied to running nodes, so only order and
+  // membership touch the graph
+  const chainKey = chainSlots.map((slot) => slot.slotId).join(",")
+
+  // The last speed effect in the chain wins, as it did when each effect set the rate itself.
+  // Region chains can't change the speed of part of the track, so only the whole-track chain counts.
+  const rateSlot = activeSlots.findLast((slot) => slot.effect.playbackRate)
+  const rateSlotId = rateSlot?.slotId ?? null
+  const playbackRate = rateSlot?.effect.playbackRate?.(rateSlot.params) ?? 1
 
   // Initialize audio element
   useEffect(() => {
     const audio = new Audio()
     audioRef.current = audio
+    // Speed effects change the pitch along with the speed, as they do in an offline render. Time
+    // Stretch puts the pitch back itself rather than leaving it to the browser.
+    audio.preservesPitch = false
 
     const handleLoadedMetadata = () => {
       setDuration(audio.duration)
+      if (pendingSeekRef.current !== null) {
+        audio.currentTime = Math.min(pendingSeekRef.current, audio.duration)
+        pendingSeekRef.current = null
+      }
     }
 
     const handleTimeUpdate = () => {
@@ -1870,9 +234,18 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       setIsPlaying(false)
     }
 
+    // Region gains are automated ahead of the playhead, so they're replanned whenever it jumps or stops
+    const scheduleRegions = () => {
+      regionGraphRef.current?.schedule(audio.currentTime, audio.playbackRate, !audio.paused)
+    }
+
     audio.addEventListener("loadedmetadata", handleLoadedMetadata)
     audio.addEventListener("timeupdate", handleTimeUpdate)
     audio.addEventListener("ended", handleEnded)
+    audio.addEventListener("playing", scheduleRegions)
+    audio.addEventListener("pause", scheduleRegions)
+    audio.addEventListener("seeked", scheduleRegions)
+    audio.addEventListener("ratechange", scheduleRegions)
 
     // Set initial volume
     audio.volume = volume
@@ -1881,6 +254,10 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       audio.removeEventListener("loadedmetadata", handleLoadedMetadata)
       audio.removeEventListener("timeupdate", handleTimeUpdate)
       audio.removeEventListener("ended", handleEnded)
+      audio.removeEventListener("playing", scheduleRegions)
+      audio.removeEventListener("pause", scheduleRegions)
+      audio.removeEventListener("seeked", scheduleRegions)
+      audio.removeEventListener("ratechange", scheduleRegions)
 
       // Clean up audio context
       if (audioContextRef.current && audioContextRef.current.state !== "closed") {
@@ -1888,54 +265,322 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
       }
 
       // Revoke object URL
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl)
+      if (mediaUrlRef.current) {
+        URL.revokeObjectURL(mediaUrlRef.current)
       }
     }
   }, [])
 
-  // Handle file changes
+  // Points the media element at new audio, releasing the previous object URL
+  const setMediaSource = (url: string | null) => {
+    if (mediaUrlRef.current) URL.revokeObjectURL(mediaUrlRef.current)
+    mediaUrlRef.current = url
+    setAudioUrl(url)
+
+    const audio = audioRef.current
+    if (!audio) return
+    if (url) {
+      audio.src = url
+    } else {
+      audio.pause()
+      audio.removeAttribute("src")
+    }
+    audio.load()
+  }
+
+  // Handle file changes. Undoing a load sets a pending session first, whose chain, regions and
+  // edited audio come back instead of a fresh start.
   useEffect(() => {
-    if (audioFile) {
-      // Revoke previous URL to prevent memory leaks
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl)
-      }
+    const restored = pendingSessionRef.current
+    pendingSessionRef.current = null
+
+    // Reset playback state
+    setIsPlaying(false)
+    setCurrentTime(0)
+    setDuration(0)
+
+    chainGraphRef.current?.dispose()
+    chainGraphRef.current = null
+    regionGraphRef.current?.dispose()
+    regionGraphRef.current = null
+    setLiveNodeCount(getLiveNodeCount())
+    setAnalysers(null)
+
+    // Reset audio context
+    if (audioContextRef.current && audioContextRef.current.state !== "closed") {
+      audioContextRef.current.close()
+      audioContextRef.current = null
+    }
 
-      // Create a new URL for the audio file
-      const newUrl = URL.createObjectURL(audioFile)
-      setAudioUrl(newUrl)
+    sourceNodeRef.current = null
+    gainNodeRef.current = null
+    setAudioContextInitialized(false)
+    setEffectChain(restored?.effectChain ?? [])
+    setRegions(restored?.regions ?? [])
+    setSelectedRegionId(null)
+    setAudioBuffer(restored?.buffer ?? null)
+    originalBufferRef.current = restored?.originalBuffer ?? null
+
+    if (!audioFile) {
+      setMediaSource(null)
+      return
+    }
 
-      // Reset playback state
-      setIsPlaying(false)
-      setCurrentTime(0)
-      setDuration(0)
+    const edited = restored?.buffer && restored.buffer !== restored.originalBuffer
+    setMediaSource(URL.createObjectURL(edited ? encodeWav(restored.buffer!, { bitDepth: 32 }) : audioFile))
+    if (restored?.buffer) return
+
+    // Decode the file for the waveform, analysis and editing
+    let cancelled = false
+    decodeAudioFile(audioFile)
+      .then((buffer) => {
+        if (cancelled) return
+        originalBufferRef.current = buffer
+        // A redone edit can land before decoding finishes, and wins
+        setAudioBuffer((current) => current ?? buffer)
+      })
+      .catch((error) => {
+        console.error("Error decoding audio file:", error)
+      })
 
-      // Reset audio element
-      if (audioRef.current) {
-        audioRef.current.src = newUrl
-        audioRef.current.load()
-      }
+    return () => {
+      cancelled = true
+    }
+  }, [audioFile])
 
-      // Reset audio context
-      if (audioContextRef.current && audioContextRef.current.state !== "closed") {
-        audioContextRef.current.close()
-        audioContextRef.current = null
+  // Stable so animation loops can depend on it without restarting every render
+  const getPlaybackTime = useCallback(() => audioRef.current?.currentTime ?? 0, [])
+
+  const loadFile = (file: File | null) => {
+    const before: Session = {
+      file: audioFile,
+      originalBuffer: originalBufferRef.current,
+      buffer: audioBuffer,
+      effectChain,
+      regions,
+    }
+    const after: Session = { file, originalBuffer: null, buffer: null, effectChain: [], regions: [] }
+
+    setChainNotice(null)
+    setAudioFile(file)
+    record({
+      label: file ? `Load ${file.name}` : "Close file",
+      undo: () => restoreSession(before),
+      redo: () => restoreSession(after),
+    })
+  }
+
+  const restoreSession = (session: Session) => {
+    pendingSessionRef.current = session
+    setAudioFile(session.file)
+  }
+
+  // Rebuilds the edited audio by replaying the project's edits on the original
+  const openProject = async (file: File) => {
+    const project = await readProjectFile(file)
+    const originalBuffer = await decodeAudioFile(project.file, project.sampleRate)
+    const buffer = project.edits.reduce((current, operation) => replayEdit(current, operation).buffer, originalBuffer)
+    editListsRef.current.set(buffer, project.edits)
+
+    const before: Session = {
+      file: audioFile,
+      originalBuffer: originalBufferRef.current,
+      buffer: audioBuffer,
+      effectChain,
+      regions,
+    }
+    const after: Session = {
+      file: project.file,
+      originalBuffer,
+      buffer,
+      effectChain: project.effectChain,
+      regions: project.regions,
+    }
+    const levels = { before: { volume, isMuted }, after: { volume: project.volume, isMuted: project.isMuted } }
+    const restore = (session: Session, level: { volume: number; isMuted: boolean }) => {
+      restoreSession(session)
+      setVolume(level.volume)
+      setIsMuted(level.isMuted)
+    }
+
+    restore(after, levels.after)
+    setChainNotice(describeDroppedEffects(project.droppedEffects) || null)
+    record({
+      label: `Open ${file.name}`,
+      undo: () => restore(before, levels.before),
+      redo: () => restore(after, levels.after),
+    })
+  }
+
+  const saveProject = async () => {
+    if (!audioFile || !audioBuffer) return
+
+    const blob = await createProjectFile({
+      file: audioFile,
+      sampleRate: (originalBufferRef.current ?? audioBuffer).sampleRate,
+      edits: editListsRef.current.get(audioBuffer) ?? [],
+      effectChain,
+      regions,
+      markers: [],
+      volume,
+      isMuted,
+    })
+
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = projectFilename(audioFile.name)
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Brings back the session saved before the last reload. It goes through the same pending
+  // session as undoing a load, so the file effect restores it in one step.
+  useEffect(() => {
+    let cancelled = false
+
+    const restoreStored = async () => {
+      try {
+        const stored = await loadSession()
+        if (cancelled) return
+        if (stored.volume !== undefined) setVolume(stored.volume)
+        if (stored.isMuted !== undefined) setIsMuted(stored.isMuted)
+
+        // The session may come from an older version with other effects and parameter ranges. Slots
+        // of effects taken out since the session was saved are left out, and the user told.
+        const storedRegions = stored.regions ?? []
+        const dropped = [stored.effectChain ?? [], ...storedRegions.map((region) => region.chain)]
+          .flat()
+          .filter((slot) => !getEffect(slot.effectId))
+          .map((slot) => slot.effectId)
+        const effectChain = normalizeChain(stored.effectChain ?? [])
+        const regions = storedRegions.map((region) => ({ ...region, chain: normalizeChain(region.chain) }))
+        setChainNotice(describeDroppedEffects(dropped) || null)
+
+        if (!stored.file) {
+          // Without audio to go with it, the chain waits for the next upload
+          if (effectChain.length) {
+            setEffectChain(effectChain)
+            pendingSessionRef.current = {
+              file: null,
+              originalBuffer: null,
+              buffer: null,
+              effectChain,
+              regions: [],
+            }
+          }
+          return
+        }
+
+        const originalBuffer = await decodeAudioFile(stored.file)
+        if (cancelled) return
+        const editedBuffer = stored.editedAudio ? storedAudioToBuffer(stored.editedAudio) : null
+        if (editedBuffer) editListsRef.current.set(editedBuffer, stored.edits ?? [])
+        pendingSessionRef.current = {
+          file: stored.file,
+          originalBuffer,
+          buffer: editedBuffer ?? originalBuffer,
+          effectChain,
+          regions,
+        }
+        pendingSeekRef.current = stored.playhead ?? null
+        setAudioFile(stored.file)
+      } catch (error) {
+        console.error("Error restoring session:", error)
+      } finally {
+        if (!cancelled) setSessionRestored(true)
       }
+    }
 
-      sourceNodeRef.current = null
-      gainNodeRef.current = null
-      effectNodesRef.current.clear()
-      setAudioContextInitialized(false)
-      setActiveEffectIds([])
+    restoreStored()
+    return () => {
+      cancelled = true
     }
-  }, [audioFile])
+  }, [])
+
+  const persistSession = (fields: Partial<StoredSession>) => {
+    saveSession(fields)
+      .then(() => setSessionSavedAt(Date.now()))
+      .catch((error) => {
+        console.error("Error saving session:", error)
+        if (!isQuotaError(error)) return
+
+        // Audio is what fills the quota, the rest is small enough to keep
+        setSessionNotice("Not enough storage to keep the audio after a reload. The chain and settings are still saved.")
+        saveSession({ file: null, editedAudio: null, edits: [] }).catch((error) => {
+          console.error("Error saving session:", error)
+        })
+      })
+  }
+
+  // Nothing is saved until the stored session has been read, which would otherwise be overwritten
+  useEffect(() => {
+    if (!sessionRestored) return
+    setSessionNotice(null)
+    persistSession({ file: audioFile, playhead: audioRef.current?.currentTime ?? 0 })
+    if (audioFile) {
+      requestPersistentStorage().catch((error) => {
+        console.error("Error requesting persistent storage:", error)
+      })
+    }
+  }, [audioFile, sessionRestored])
+
+  // Edited audio is kept as samples, an untouched file is decoded again on restore
+  useEffect(() => {
+    if (!sessionRestored) return
+    const edited = audioBuffer && audioBuffer !== originalBufferRef.current
+    persistSession({
+      editedAudio: edited ? bufferToStoredAudio(audioBuffer) : null,
+      edits: (audioBuffer && editListsRef.current.get(audioBuffer)) ?? [],
+    })
+  }, [audioBuffer, sessionRestored])
+
+  useEffect(() => {
+    if (!sessionRestored) return
+    const timeout = setTimeout(() => persistSession({ effectChain, regions, volume, isMuted }), SESSION_SAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [effectChain, regions, volume, isMuted, sessionRestored])
+
+  // The playhead moves constantly while playing, so it's saved when playback stops, jumps or the page goes
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!sessionRestored || !audio) return
+
+    const savePlayhead = () => persistSession({ playhead: audio.currentTime })
+    audio.addEventListener("pause", savePlayhead)
+    audio.addEventListener("seeked", savePlayhead)
+    window.addEventListener("pagehide", savePlayhead)
+    return () => {
+      audio.removeEventListener("pause", savePlayhead)
+      audio.removeEventListener("seeked", savePlayhead)
+      window.removeEventListener("pagehide", savePlayhead)
+    }
+  }, [sessionRestored])
+
+  const startFresh = () => {
+    clearSession().catch((error) => {
+      console.error("Error clearing session:", error)
+    })
+    clearHistory()
+    pendingSessionRef.current = null
+    pendingSeekRef.current = null
+    setSessionNotice(null)
+    setChainNotice(null)
+    setVolume(DEFAULT_VOLUME)
+    setIsMuted(false)
+    setEffectChain([])
+    setRegions([])
+    setSelectedRegionId(null)
+    setAudioFile(null)
+  }
 
   // Initialize audio context when audio is loaded
   useEffect(() => {
     if (!audioRef.current || !audioUrl || audioContextInitialized) return
 
-    const initializeAudioContext = () => {
+    const initializeAudioContext = async () => {
       try {
         // Create new audio context
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
@@ -1948,10 +593,27 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         gainNodeRef.current = audioContext.createGain()
         gainNodeRef.current.gain.value = isMuted ? 0 : volume
 
-        // Connect source to gain node and gain node to destination
-        sourceNodeRef.current.connect(gainNodeRef.current)
+        // The whole-track chain feeds the region graph, which sits before the gain node
+        const regionInput = audioContext.createGain()
+        chainGraphRef.current = createChainGraph(audioContext, sourceNodeRef.current, regionInput)
+        regionGraphRef.current = createRegionGraph(audioContext, regionInput, gainNodeRef.current)
         gainNodeRef.current.connect(audioContext.destination)
 
+        // Analysers only listen, so they hang off the graph without feeding anything
+        const createTap = (node: AudioNode) => {
+          const analyser = audioContext.createAnalyser()
+          analyser.fftSize = 2048
+          analyser.smoothingTimeConstant = 0.8
+          node.connect(analyser)
+          return analyser
+        }
+        const taps = { pre: createTap(sourceNodeRef.current), post: createTap(gainNodeRef.current) }
+
+        // Effects are only built once their worklet processors are available
+        await loadAudioWorklets(audioContext)
+        if (audioContextRef.current !== audioContext) return
+
+        setAnalysers(taps)
         setAudioContextInitialized(true)
       } catch (error) {
         console.error("Error initializing audio context:", error)
@@ -1971,45 +633,32 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     }
   }, [audioUrl, isMuted, volume])
 
-  // Apply effects when they change
+  // Apply effects when they change, creating and removing only the slots that changed
   useEffect(() => {
-    if (!audioContextInitialized || !audioContextRef.current || !sourceNodeRef.current || !gainNodeRef.current) return
-
-    const audioContext = audioContextRef.current
-    const sourceNode = sourceNodeRef.current
-    const gainNode = gainNodeRef.current
-
-    // Disconnect all existing connections
-    effectNodesRef.current.forEach((node) => {
-      node.disconnect()
-    })
-
-    effectNodesRef.current.clear()
+    if (!audioContextInitialized || !chainGraphRef.current) return
 
-    // Disconnect source from gain node
-    sourceNode.disconnect()
+    chainGraphRef.current.sync(chainSlots)
+    setLiveNodeCount(getLiveNodeCount())
+  }, [chainKey, audioContextInitialized])
 
-    // Apply active effects
-    let currentNode: AudioNode = sourceNode
-
-    activeEffects.forEach((effect) => {
-      const effectNode = effect.apply(audioContext, currentNode)
-      effectNodesRef.current.set(effect.id, effectNode)
-      currentNode = effectNode
-    })
+  // Region chains are diffed the same way; any region edit also replans the gain automation
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audioContextInitialized || !regionGraphRef.current || !audio) return
 
-    // Connect the last node to the gain node
-    currentNode.connect(gainNode)
+    regionGraphRef.current.sync(resolvedRegions)
+    regionGraphRef.current.schedule(audio.currentTime, audio.playbackRate, !audio.paused)
+    setLiveNodeCount(getLiveNodeCount())
+  }, [regions, audioContextInitialized])
 
-    // Reset playback rate if no speed effects are active
-    if (
-      !activeEffects.some((effect) =>
-        ["Nightcore", "Vaporwave", "Pitch Shift Up", "Pitch Shift Down"].includes(effect.name),
-      )
-    ) {
-      audioRef.current!.playbackRate = 1.0
+  // Speed effects act on the media element, which can follow parameter changes directly. Slots
+  // that undo the pitch change follow it too, including ones the sync above just created.
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = playbackRate
     }
-  }, [activeEffectIds, audioContextInitialized])
+    chainGraphRef.current?.setPlaybackRate(playbackRate, rateSlotId)
+  }, [playbackRate, rateSlotId, chainKey, audioContextInitialized])
 
   // Update volume
   useEffect(() => {
@@ -2022,111 +671,6 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     }
   }, [volume, isMuted])
 
-  // Handle recording for download
-  useEffect(() => {
-    if (!isRecording || !audioContextRef.current || !gainNodeRef.current) return
-
-    try {
-      console.log("Starting recording process...")
-      // Create a destination node for recording
-      const destination = audioContextRef.current.createMediaStreamDestination()
-
-      // Connect the gain node to the destination
-      gainNodeRef.current.connect(destination)
-
-      // Create a media recorder with MP3 format if supported
-      let mimeType = "audio/mp3"
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        // Fallback to default format if MP3 is not supported
-        mimeType = ""
-      }
-      const mediaRecorder = new MediaRecorder(destination.stream, {
-        mimeType: mimeType || undefined,
-      })
-      mediaRecorderRef.current = mediaRecorder
-      recordedChunksRef.current = [] // Clear previous chunks
-
-      // Set up event handlers
-      mediaRecorder.ondataavailable = (event) => {
-        console.log("Data available from recorder", event.data.size)
-        if (event.data.size > 0) {
-          recordedChunksRef.current.push(event.data)
-        }
-      }
-
-      mediaRecorder.onstop = () => {
-        console.log("Recording stopped, creating download...")
-        // Create a blob from the recorded chunks with MP3 MIME type
-        const blob = new Blob(recordedChunksRef.current, { type: "audio/mp3" })
-        console.log("Created blob of size:", blob.size)
-
-        // Create a download link
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement("a")
-
-        // Generate filename based on original file and effects with .mp3 extension
-        const originalName = audioFile?.name?.split(".")[0] || "audio"
-        const effectNames =
-          activeEffects.length > 0
-            ? activeEffects.map((effect) => effect.name.toLowerCase().replace(/\s+/g, "-")).join("-")
-            : "original"
-        const filename = `${originalName}-${effectNames}.mp3`
-
-        a.href = url
-        a.download = filename
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-
-        // Clean up
-        URL.revokeObjectURL(url)
-        recordedChunksRef.current = []
-        setIsRecording(false)
-        console.log("Download complete")
-      }
-
-      // Start recording
-      console.log("Starting media recorder...")
-      mediaRecorder.start()
-
-      // Stop recording when audio ends or after 30 seconds (safety)
-      const handleRecordingEnd = () => {
-        console.log("Audio ended, stopping recorder")
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-          mediaRecorderRef.current.stop()
-        }
-      }
-
-      audioRef.current?.addEventListener("ended", handleRecordingEnd)
-
-      const safetyTimeout = setTimeout(() => {
-        console.log("Safety timeout reached, stopping recorder")
-        handleRecordingEnd()
-      }, 30000)
-
-      return () => {
-        console.log("Cleaning up recording effect")
-        audioRef.current?.removeEventListener("ended", handleRecordingEnd)
-        clearTimeout(safetyTimeout)
-
-        // Disconnect the destination
-        try {
-          gainNodeRef.current?.disconnect(destination)
-        } catch (e) {
-          console.log("Error disconnecting destination:", e)
-        }
-
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-          console.log("Stopping recorder during cleanup")
-          mediaRecorderRef.current.stop()
-        }
-      }
-    } catch (error) {
-      console.error("Error setting up recording:", error)
-      setIsRecording(false)
-    }
-  }, [isRecording, audioFile, activeEffects])
-
   const togglePlay = () => {
     if (!audioRef.current || !audioUrl) return
 
@@ -2145,57 +689,319 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
     setIsPlaying(!isPlaying)
   }
 
+  const changeVolume = (next: number) => {
+    const before = volume
+    setVolume(next)
+    record({ label: "Volume", mergeKey: "volume", undo: () => setVolume(before), redo: () => setVolume(next) })
+  }
+
   const toggleMute = () => {
-    setIsMuted(!isMuted)
+    const next = !isMuted
+    setIsMuted(next)
+    record({ label: next ? "Mute" : "Unmute", undo: () => setIsMuted(!next), redo: () => setIsMuted(next) })
+  }
+
+  const selectedRegion = regions.find((region) => region.regionId === selectedRegionId) ?? null
+  const editingChain = selectedRegion ? selectedRegion.chain : effectChain
+
+  const findSlotNode = (slotId: string) =>
+    chainGraphRef.current?.getSlotNode(slotId) ?? regionGraphRef.current?.getSlotNode(slotId)
+
+  // Sets chain state from history. Slots that survive keep their nodes, which only follow
+  // membership on their own, so mix, bypass and changed parameters are pushed to them here.
+  const restoreChains = (snapshot: ChainSnapshot) => {
+    setEffectChain(snapshot.effectChain)
+    setRegions(snapshot.regions)
+    setSelectedRegionId((regionId) =>
+      snapshot.regions.some((region) => region.regionId === regionId) ? regionId : null,
+    )
+
+    const slots = [...snapshot.effectChain, ...snapshot.regions.flatMap((region) => region.chain)]
+    slots.forEach((slot) => {
+      const slotNode = findSlotNode(slot.slotId)
+      if (!slotNode) return
+      slotNode.setMix(slot.mix, slot.bypassed)
+      Object.entries(slot.params).forEach(([paramId, value]) => slotNode.setParam(paramId, value))
+    })
+  }
+
+  const commitChains = (label: string, after: ChainSnapshot, mergeKey?: string) => {
+    const before: ChainSnapshot = { effectChain, regions }
+    setEffectChain(after.effectChain)
+    setRegions(after.regions)
+    record({ label, mergeKey, undo: () => restoreChains(before), redo: () => restoreChains(after) })
+  }
+
+  // Chain edits go to the selected region's chain, or the whole-track chain when none is selected
+  const updateEditingChain = (label: string, update: (chain: EffectSlot[]) => EffectSlot[], mergeKey?: string) => {
+    if (selectedRegionId) {
+      commitChains(
+        label,
+        {
+          effectChain,
+          regions: regions.map((region) =>
+            region.regionId === selectedRegionId ? { ...region, chain: update(region.chain) } : region,
+          ),
+        },
+        mergeKey,
+      )
+    } else {
+      commitChains(label, { effectChain: update(effectChain), regions }, mergeKey)
+    }
+  }
+
+  const slotName = (slotId: string) => {
+    const slot = editingChain.find((slot) => slot.slotId === slotId)
+    return (slot && getEffect(slot.effectId)?.name) ?? "effect"
   }
 
+  // Adds the effect to the end of the chain, or removes every slot using it. Speed effects only
+  // go in the whole-track chain.
   const toggleEffect = (effectId: number) => {
-    setActiveEffectIds((prev) => {
-      if (prev.includes(effectId)) {
-        return prev.filter((id) => id !== effectId)
-      } else {
-        return [...prev, effectId]
-      }
+    const effect = getEffect(effectId)
+    if (!effect) return
+
+    if (editingChain.some((slot) => slot.effectId === effectId)) {
+      updateEditingChain(`Remove ${effect.name}`, (chain) => chain.filter((slot) => slot.effectId !== effectId))
+    } else if (!(selectedRegion && effect.playbackRate)) {
+      updateEditingChain(`Add ${effect.name}`, (chain) => [...chain, createSlot(effect)])
+    }
+  }
+
+  const removeSlot = (slotId: string) => {
+    updateEditingChain(`Remove ${slotName(slotId)}`, (chain) => chain.filter((slot) => slot.slotId !== slotId))
+  }
+
+  // Inserts a copy with the same settings right after the original
+  const duplicateSlot = (slotId: string) => {
+    updateEditingChain(`Duplicate ${slotName(slotId)}`, (chain) =>
+      chain.flatMap((slot) => (slot.slotId === slotId ? [slot, cloneSlot(slot)] : [slot])),
+    )
+  }
+
+  const reorderChain = (slotIds: string[]) => {
+    // Drags report every intermediate order, they collapse into one step
+    updateEditingChain(
+      "Reorder chain",
+      (chain) => slotIds.flatMap((slotId) => chain.filter((slot) => slot.slotId === slotId)),
+      "reorder",
+    )
+  }
+
+  const toggleSlotBypass = (slotId: string) => {
+    const slot = editingChain.find((slot) => slot.slotId === slotId)
+    if (!slot) return
+
+    updateEditingChain(`${slot.bypassed ? "Enable" : "Bypass"} ${slotName(slotId)}`, (chain) =>
+      chain.map((slot) => (slot.slotId === slotId ? { ...slot, bypassed: !slot.bypassed } : slot)),
+    )
+    findSlotNode(slotId)?.setMix(slot.mix, !slot.bypassed)
+  }
+
+  const setSlotMix = (slotId: string, mix: number) => {
+    const slot = editingChain.find((slot) => slot.slotId === slotId)
+    if (!slot) return
+
+    const clamped = Math.min(1, Math.max(0, mix))
+    updateEditingChain(
+      `${slotName(slotId)} mix`,
+      (chain) => chain.map((slot) => (slot.slotId === slotId ? { ...slot, mix: clamped } : slot)),
+      `mix:${slotId}`,
+    )
+    findSlotNode(slotId)?.setMix(clamped, slot.bypassed)
+  }
+
+  const setSlotParam = (slotId: string, paramId: string, value: number) => {
+    const slot = editingChain.find((slot) => slot.slotId === slotId)
+    const param = slot && getEffect(slot.effectId)?.params.find((param) => param.id === paramId)
+    if (!param) return
+
+    const clamped = clampParam(param, value)
+    updateEditingChain(
+      `${slotName(slotId)} ${param.name.toLowerCase()}`,
+      (chain) =>
+        chain.map((slot) =>
+          slot.slotId === slotId ? { ...slot, params: { ...slot.params, [paramId]: clamped } } : slot,
+        ),
+      `param:${slotId}:${paramId}`,
+    )
+
+    // Running effects glide to the new value instead of being rebuilt
+    findSlotNode(slotId)?.setParam(paramId, clamped)
+  }
+
+  const loadChain = (chain: EffectSlot[], label: string) => {
+    updateEditingChain(label, () => chain)
+  }
+
+  const selectRegion = (regionId: string | null) => {
+    setSelectedRegionId(regionId)
+  }
+
+  // New regions start with an empty chain and take over the chain controls
+  const addRegion = (start: number, end: number) => {
+    const from = Math.max(0, Math.min(start, end))
+    const to = Math.min(audioBuffer?.duration ?? duration, Math.max(start, end))
+    if (to - from < MIN_REGION_LENGTH) return
+
+    const region = createRegion(from, to)
+    commitChains("Add region", { effectChain, regions: [...regions, region].sort((a, b) => a.start - b.start) })
+    setSelectedRegionId(region.regionId)
+  }
+
+  const updateRegion = (
+    regionId: string,
+    changes: Partial<Pick<EffectRegion, "start" | "end" | "fadeIn" | "fadeOut">>,
+  ) => {
+    commitChains(
+      "Adjust region",
+      {
+        effectChain,
+        regions: regions.map((region) =>
+          region.regionId === regionId ? clampRegionFades({ ...region, ...changes }) : region,
+        ),
+      },
+      `region:${regionId}`,
+    )
+  }
+
+  const removeRegion = (regionId: string) => {
+    commitChains("Remove region", { effectChain, regions: regions.filter((region) => region.regionId !== regionId) })
+    if (selectedRegionId === regionId) setSelectedRegionId(null)
+  }
+
+  // Swaps the audio the media element plays, mapping the playhead through the edit when possible
+  const showBuffer = (buffer: AudioBuffer, mapTime?: (time: number) => number | null) => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    const position = mapTime?.(audio.currentTime) ?? Math.min(audio.currentTime, buffer.duration)
+    const wasPlaying = !audio.paused
+
+    // Edits play from a lossless copy, the untouched original from the file itself
+    const original = buffer === originalBufferRef.current && audioFile
+    setMediaSource(URL.createObjectURL(original ? audioFile : encodeWav(buffer, { bitDepth: 32 })))
+    audio.currentTime = position
+    if (wasPlaying) {
+      audio.play().catch((error) => {
+        console.error("Error playing audio:", error)
+      })
+    }
+
+    setAudioBuffer(buffer)
+  }
+
+  const restoreAudio = (buffer: AudioBuffer, regions: EffectRegion[]) => {
+    setRegions(regions)
+    setSelectedRegionId((regionId) => (regions.some((region) => region.regionId === regionId) ? regionId : null))
+    showBuffer(buffer)
+  }
+
+  const applyEdit = ({ buffer, mapFrame, operation }: EditResult, label: string) => {
+    if (!audioBuffer) return
+    editListsRef.current.set(buffer, [...(editListsRef.current.get(audioBuffer) ?? []), operation])
+
+    const sampleRate = audioBuffer.sampleRate
+    const mapTime = (time: number) => {
+      const frame = mapFrame(Math.round(time * sampleRate))
+      return frame === null ? null : frame / sampleRate
+    }
+
+    // Regions follow the audio they cover
+    const before = { buffer: audioBuffer, regions }
+    const nextRegions = remapRegions(regions, mapTime)
+    setRegions(nextRegions)
+    if (!nextRegions.some((region) => region.regionId === selectedRegionId)) setSelectedRegionId(null)
+    showBuffer(buffer, mapTime)
+
+    record({
+      label,
+      undo: () => restoreAudio(before.buffer, before.regions),
+      redo: () => restoreAudio(buffer, nextRegions),
     })
   }
 
-  const downloadProcessedAudio = () => {
-    if (!audioRef.current || !audioUrl || !audioContextInitialized) return
+  // Renders the whole buffer through the current chain faster than real time
+  const renderThroughChain = async (buffer: AudioBuffer, onProgress?: (progress: number) => void) => {
+    // Assigned inside the render callback
+    let offlineGraph = null as ChainGraph | null
+    let offlineRegionGraph = null as RegionGraph | null
 
-    // Make sure audio is playing from the beginning
-    if (audioRef.current) {
-      audioRef.current.currentTime = 0
+    try {
+      return await renderOffline({
+        buffer,
+        buildChain: (audioContext, source) => {
+          const regionInput = audioContext.createGain()
+          const output = audioContext.createGain()
+          offlineGraph = createChainGraph(audioContext, source, regionInput)
+          offlineGraph.sync(chainSlots)
+          offlineGraph.setPlaybackRate(playbackRate, rateSlotId)
+          offlineRegionGraph = createRegionGraph(audioContext, regionInput, output)
+          offlineRegionGraph.sync(resolvedRegions)
+          // The render plays the file once from the start, so the whole automation is known up front
+          offlineRegionGraph.schedule(0, playbackRate, true)
+          return { output, latency: offlineGraph.getLatency() }
+        },
+        playbackRate,
+        // Each effect rings on through the tails of the ones before it, so chained tails add up
+        tail: activeSlots.reduce((total, slot) => total + (slot.effect.tail ? slot.effect.tail(slot.params) : 0), 0),
+        onProgress,
+      })
+    } finally {
+      offlineGraph?.dispose()
+      offlineRegionGraph?.dispose()
+    }
+  }
 
-      // Resume audio context if it was suspended
-      if (audioContextRef.current && audioContextRef.current.state === "suspended") {
-        audioContextRef.current
-          .resume()
-          .then(() => {
-            // Start recording after context is resumed
-            setIsRecording(true)
-            audioRef.current!.play().catch((error) => {
-              console.error("Error playing audio for recording:", error)
-              setIsRecording(false)
-            })
-          })
-          .catch((error) => {
-            console.error("Error resuming audio context:", error)
-            setIsRecording(false)
-          })
-      } else {
-        // Start recording directly
-        setIsRecording(true)
-        audioRef.current.play().catch((error) => {
-          console.error("Error playing audio for recording:", error)
-          setIsRecording(false)
-        })
-      }
+  const renderProcessedAudio = async () => {
+    if (!audioBuffer) return null
+    return renderThroughChain(audioBuffer)
+  }
+
+  const downloadProcessedAudio = async (settings: ExportSettings = DEFAULT_EXPORT_SETTINGS) => {
+    if (!audioFile || exportProgress !== null) return
+
+    setExportProgress(0)
+
+    try {
+      // Decoding at the target rate lets the browser resample before rendering, edited audio
+      // has no file to decode and is resampled instead
+      const sampleRate = resolveExportSampleRate(settings)
+      const buffer =
+        audioBuffer && audioBuffer !== originalBufferRef.current
+          ? await resampleBuffer(audioBuffer, sampleRate)
+          : await decodeAudioFile(audioFile, sampleRate)
+      const rendered = await renderThroughChain(buffer, setExportProgress)
+      const { blob, extension } = await encodeAudio(rendered, settings)
+
+      // Create a download link
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+
+      // Generate filename based on original file and effects
+      const originalName = audioFile.name.split(".")[0] || "audio"
+      const effectNames =
+        activeEffects.length > 0
+          ? activeEffects.map((effect) => effect.name.toLowerCase().replace(/\s+/g, "-")).join("-")
+          : "original"
+      const filename = `${originalName}-${effectNames}.${extension}`
+
+      a.href = url
+      a.download = filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+
+      // Clean up
+      URL.revokeObjectURL(url)
+    } finally {
+      setExportProgress(null)
     }
   }
 
   const value = {
     audioFile,
-    setAudioFile,
+    setAudioFile: loadFile,
     isPlaying,
     togglePlay,
     currentTime,
@@ -2205,15 +1011,42 @@ export function AudioProvider({ children }: { children: React.ReactNode }) {
         audioRef.current.currentTime = time
       }
     },
+    playbackRate,
+    getPlaybackTime,
     volume,
-    setVolume,
+    setVolume: changeVolume,
     isMuted,
     toggleMute,
-    availableEffects,
+    effectChain: editingChain,
     activeEffects,
     toggleEffect,
+    removeSlot,
+    duplicateSlot,
+    reorderChain,
+    toggleSlotBypass,
+    setSlotMix,
+    setSlotParam,
+    loadChain,
+    regions,
+    selectedRegionId,
+    selectRegion,
+    addRegion,
+    updateRegion,
+    removeRegion,
     audioUrl,
+    audioBuffer,
+    applyEdit,
+    renderProcessedAudio,
     downloadProcessedAudio,
+    saveProject,
+    openProject,
+    exportProgress,
+    liveNodeCount,
+    analysers,
+    startFresh,
+    sessionNotice,
+    chainNotice,
+    sessionSavedAt,
   }
 
   return <AudioContext.Provider value={value}>{children}</AudioContext.Provider>
@@ -0,0 +1,69 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useEffect, useState, useSyncExternalStore } from "react"
+import { createHistoryStore, type HistoryState, type HistoryStore } from "@/lib/history"
+
+type HistoryContextType = HistoryState & {
+  record: HistoryStore["record"]
+  undo: () => void
+  redo: () => void
+  jumpTo: (position: number) => void
+  clear: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+const HistoryContext = createContext<HistoryContextType | undefined>(undefined)
+
+export function useHistory() {
+  const context = useContext(HistoryContext)
+  if (context === undefined) {
+    throw new Error("useHistory must be used within a HistoryProvider")
+  }
+  return context
+}
+
+// Shortcuts are left to the browser while typing, where undo means something else
+function isEditingText(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA")
+  )
+}
+
+export function HistoryProvider({ children }: { children: React.ReactNode }) {
+  const [store] = useState(createHistoryStore)
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        store.undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        store.redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [store])
+
+  const value = {
+    ...state,
+    record: store.record,
+    undo: store.undo,
+    redo: store.redo,
+    jumpTo: store.jumpTo,
+    clear: store.clear,
+    canUndo: state.position > 0,
+    canRedo: state.position < state.entries.length,
+  }
+
+  return <HistoryContext.Provider value={value}>{children}</HistoryContext.Provider>
+}
@@ -0,0 +1,40 @@
+import * as React from "react"
+import { DEFAULT_EXPORT_SETTINGS, type ExportSettings } from "@/lib/audio/export-formats"
+
+const STORAGE_KEY = "musico-export-settings"
+const CHANGE_EVENT = "musico-export-settings-change"
+
+function readStoredSettings(): ExportSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS
+  } catch (error) {
+    console.error("Error reading export settings:", error)
+    return DEFAULT_EXPORT_SETTINGS
+  }
+}
+
+export function useExportSettings() {
+  const [settings, setSettings] = React.useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
+
+  // Read after mount so server and client render the same defaults, and stay in sync
+  // with other components that save settings
+  React.useEffect(() => {
+    const onChange = () => setSettings(readStoredSettings())
+    onChange()
+    window.addEventListener(CHANGE_EVENT, onChange)
+    return () => window.removeEventListener(CHANGE_EVENT, onChange)
+  }, [])
+
+  const saveSettings = React.useCallback((next: ExportSettings) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch (error) {
+      console.error("Error saving export settings:", error)
+    }
+    setSettings(next)
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  return [settings, saveSettings] as const
+}
@@ -0,0 +1,66 @@
+import * as React from "react"
+import {
+  deletePreset,
+  listPresets,
+  normalizeTags,
+  restoreFactoryPresets,
+  savePresets,
+  type Preset,
+} from "@/lib/presets"
+
+const CHANGE_EVENT = "musico-presets-change"
+
+export function usePresets() {
+  const [presets, setPresets] = React.useState<Preset[]>([])
+  const [loaded, setLoaded] = React.useState(false)
+
+  // IndexedDB only exists in the browser, so the list is read after mount and re-read
+  // whenever any component changes it
+  React.useEffect(() => {
+    let cancelled = false
+    const onChange = () => {
+      listPresets()
+        .then((stored) => {
+          if (cancelled) return
+          setPresets(stored)
+          setLoaded(true)
+        })
+        .catch((error) => {
+          console.error("Error reading presets:", error)
+        })
+    }
+    onChange()
+    window.addEventListener(CHANGE_EVENT, onChange)
+    return () => {
+      cancelled = true
+      window.removeEventListener(CHANGE_EVENT, onChange)
+    }
+  }, [])
+
+  const mutate = React.useCallback(async (change: () => Promise<void>) => {
+    try {
+      await change()
+    } catch (error) {
+      console.error("Error saving presets:", error)
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  const addPresets = React.useCallback((added: Preset[]) => mutate(() => savePresets(added)), [mutate])
+
+  const updatePreset = React.useCallback(
+    (preset: Preset, changes: Partial<Pick<Preset, "name" | "tags" | "favorite">>) =>
+      mutate(() =>
+        savePresets([
+          { ...preset, ...changes, tags: normalizeTags(changes.tags ?? preset.tags), updatedAt: Date.now() },
+        ]),
+      ),
+    [mutate],
+  )
+
+  const removePreset = React.useCallback((presetId: string) => mutate(() => deletePreset(presetId)), [mutate])
+
+  const restoreFactory = React.useCallback(() => mutate(restoreFactoryPresets), [mutate])
+
+  return { presets, loaded, addPresets, updatePreset, removePreset, restoreFactory }
+}
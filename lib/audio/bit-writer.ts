@@ -0,0 +1,67 @@
+// Big-endian bit writer backed by a growable byte array
+export class BitWriter {
+  private bytes = new Uint8Array(1 << 16)
+  private byteLength = 0
+  private currentByte = 0
+  private bitCount = 0
+
+  get length() {
+    return this.byteLength
+  }
+
+  writeBits(value: number, count: number) {
+    // Split wide writes so the accumulator below stays within 32-bit integer range
+    if (count > 24) {
+      this.writeBits(Math.floor(value / 0x1000000) & ((1 << (count - 24)) - 1), count - 24)
+      this.writeBits(value & 0xffffff, 24)
+      return
+    }
+
+    this.currentByte = (this.currentByte << count) | (value & ((1 << count) - 1))
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8
+      this.pushByte((this.currentByte >>> this.bitCount) & 0xff)
+    }
+    this.currentByte &= (1 << this.bitCount) - 1
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros > 0) {
+      const chunk = Math.min(zeros, 24)
+      this.writeBits(0, chunk)
+      zeros -= chunk
+    }
+    this.writeBits(1, 1)
+  }
+
+  writeBytes(data: ArrayLike<number>) {
+    for (let i = 0; i < data.length; i++) {
+      this.writeBits(data[i], 8)
+    }
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount)
+    }
+  }
+
+  slice(start: number, end = this.byteLength) {
+    return this.bytes.subarray(start, end)
+  }
+
+  toUint8Array() {
+    this.alignToByte()
+    return this.bytes.slice(0, this.byteLength)
+  }
+
+  private pushByte(byte: number) {
+    if (this.byteLength === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.byteLength++] = byte
+  }
+}
@@ -0,0 +1,41 @@
+export type Colormap = "magma" | "viridis" | "musico" | "grayscale"
+
+export const COLORMAPS: { value: Colormap; label: string }[] = [
+  { value: "magma", label: "Magma" },
+  { value: "viridis", label: "Viridis" },
+  { value: "musico", label: "Musico" },
+  { value: "grayscale", label: "Grayscale" },
+]
+
+// Evenly spaced color stops, interpolated into a 256 entry table
+const COLOR_STOPS: Record<Colormap, string[]> = {
+  magma: ["#000004", "#3b0f70", "#8c2981", "#de4968", "#fe9f6d", "#fcfdbf"],
+  viridis: ["#440154", "#414487", "#2a788e", "#22a884", "#7ad151", "#fde725"],
+  musico: ["#0c0118", "#3b0764", "#7e22ce", "#c026d3", "#ec4899", "#fdf2f8"],
+  grayscale: ["#000000", "#ffffff"],
+}
+
+const tables = new Map<Colormap, Uint8ClampedArray>()
+
+const parseHex = (hex: string) => [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16))
+
+// RGB triplets for levels 0..255
+export function getColormapTable(colormap: Colormap) {
+  let table = tables.get(colormap)
+  if (table) return table
+
+  const stops = COLOR_STOPS[colormap].map(parseHex)
+  table = new Uint8ClampedArray(256 * 3)
+  for (let level = 0; level < 256; level++) {
+    const position = (level / 255) * (stops.length - 1)
+    const index = Math.min(stops.length - 2, Math.floor(position))
+    const fraction = position - index
+    for (let component = 0; component < 3; component++) {
+      const from = stops[index][component]
+      table[level * 3 + component] = from + (stops[index + 1][component] - from) * fraction
+    }
+  }
+
+  tables.set(colormap, table)
+  return table
+}
@@ -0,0 +1,298 @@
+// Destructive edits on decoded audio. Every operation works on whole sample frames and returns
+// a new buffer, leaving the input untouched.
+
+export type FadeCurve = "linear" | "exponential" | "logarithmic" | "s-curve"
+
+// An edit described as data, so a chain of them can be saved and replayed on the original audio.
+// Frames refer to the buffer as it was when the edit was made.
+export type EditOperation =
+  | { type: "trim" | "delete" | "normalize" | "reverse"; start: number; end: number }
+  | { type: "reverse-reverb"; start: number; end: number; seconds: number }
+  | { type: "paste"; start: number; end: number; clip: Float32Array<ArrayBuffer>[] }
+  | { type: "silence"; start: number; length: number }
+  | { type: "fade"; start: number; end: number; direction: "in" | "out"; curve: FadeCurve }
+  | { type: "gain"; start: number; end: number; decibels: number }
+
+export type EditResult = {
+  buffer: AudioBuffer
+  // Where a frame of the old buffer ended up, or null if it was removed or replaced
+  mapFrame: (frame: number) => number | null
+  operation: EditOperation
+}
+
+export const FADE_CURVES: { value: FadeCurve; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "exponential", label: "Exponential" },
+  { value: "logarithmic", label: "Logarithmic" },
+  { value: "s-curve", label: "S-curve" },
+]
+
+// Buffers can't be empty, so a fully cut file keeps a single silent frame
+function createBuffer(like: AudioBuffer, length: number) {
+  return new AudioBuffer({
+    length: Math.max(1, length),
+    numberOfChannels: like.numberOfChannels,
+    sampleRate: like.sampleRate,
+  })
+}
+
+function clampRange(buffer: AudioBuffer, start: number, end: number) {
+  const from = Math.max(0, Math.min(buffer.length, Math.round(Math.min(start, end))))
+  const to = Math.max(from, Math.min(buffer.length, Math.round(Math.max(start, end))))
+  return [from, to] as const
+}
+
+// Frames [start, end) of the buffer as a new buffer
+export function copyRange(buffer: AudioBuffer, start: number, end: number) {
+  const [from, to] = clampRange(buffer, start, end)
+  const clip = createBuffer(buffer, to - from)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    clip.copyToChannel(buffer.getChannelData(channel).subarray(from, to), channel)
+  }
+  return clip
+}
+
+// Swaps frames [start, end) for the insert, or for silence of the given length
+function replaceRange(buffer: AudioBuffer, start: number, end: number, insert: AudioBuffer | number) {
+  const [from, to] = clampRange(buffer, start, end)
+  const insertLength = typeof insert === "number" ? Math.max(0, Math.round(insert)) : insert.length
+  const result = createBuffer(buffer, buffer.length - (to - from) + insertLength)
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel)
+    const target = result.getChannelData(channel)
+    target.set(source.subarray(0, from))
+    if (typeof insert !== "number") {
+      // Mono clips go to every channel, extra clip channels are dropped
+      target.set(insert.getChannelData(Math.min(channel, insert.numberOfChannels - 1)), from)
+    }
+    target.set(source.subarray(to), from + insertLength)
+  }
+
+  return {
+    buffer: result,
+    mapFrame: (frame: number) => (frame <= from ? frame : frame >= to ? frame - (to - from) + insertLength : null),
+    from,
+    to,
+  }
+}
+
+// Applies a gain curve over frames [start, end) in a copy of the buffer
+function mapRange(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  gainAt: (position: number) => number,
+) {
+  const [from, to] = clampRange(buffer, start, end)
+  const result = createBuffer(buffer, buffer.length)
+  const length = to - from
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const target = result.getChannelData(channel)
+    target.set(buffer.getChannelData(channel))
+    for (let i = from; i < to; i++) {
+      target[i] *= gainAt(length > 1 ? (i - from) / (length - 1) : 1)
+    }
+  }
+
+  return { buffer: result, mapFrame: (frame: number) => frame, from, to }
+}
+
+export function trimToRange(buffer: AudioBuffer, start: number, end: number): EditResult {
+  const [from, to] = clampRange(buffer, start, end)
+  return {
+    buffer: copyRange(buffer, from, to),
+    mapFrame: (frame) => (frame >= from && frame <= to ? frame - from : null),
+    operation: { type: "trim", start: from, end: to },
+  }
+}
+
+export function deleteRange(buffer: AudioBuffer, start: number, end: number): EditResult {
+  const { from, to, ...result } = replaceRange(buffer, start, end, 0)
+  return { ...result, operation: { type: "delete", start: from, end: to } }
+}
+
+// Inserts the clip at a position, replacing frames [start, end) when they span a selection
+export function pasteClip(buffer: AudioBuffer, clip: AudioBuffer, start: number, end = start): EditResult {
+  const { from, to, ...result } = replaceRange(buffer, start, end, clip)
+  const channels = Array.from({ length: clip.numberOfChannels }, (_, channel) => clip.getChannelData(channel).slice())
+  return { ...result, operation: { type: "paste", start: from, end: to, clip: channels } }
+}
+
+export function insertSilence(buffer: AudioBuffer, position: number, length: number): EditResult {
+  const { from, ...result } = replaceRange(buffer, position, position, length)
+  return { ...result, operation: { type: "silence", start: from, length: Math.max(0, Math.round(length)) } }
+}
+
+function fadeShape(curve: FadeCurve, position: number) {
+  switch (curve) {
+    case "exponential":
+      return position * position
+    case "logarithmic":
+      return Math.sqrt(position)
+    case "s-curve":
+      return 0.5 - 0.5 * Math.cos(Math.PI * position)
+    default:
+      return position
+  }
+}
+
+export function fadeRange(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  direction: "in" | "out",
+  curve: FadeCurve,
+): EditResult {
+  const { from, to, ...result } = mapRange(buffer, start, end, (position) =>
+    fadeShape(curve, direction === "in" ? position : 1 - position),
+  )
+  return { ...result, operation: { type: "fade", start: from, end: to, direction, curve } }
+}
+
+export function gainRange(buffer: AudioBuffer, start: number, end: number, decibels: number): EditResult {
+  const gain = Math.pow(10, decibels / 20)
+  const { from, to, ...result } = mapRange(buffer, start, end, () => gain)
+  return { ...result, operation: { type: "gain", start: from, end: to, decibels } }
+}
+
+// Scales frames [start, end) so their loudest sample reaches the target level
+export function normalizeRange(buffer: AudioBuffer, start: number, end: number, targetDecibels = -0.1): EditResult {
+  const [from, to] = clampRange(buffer, start, end)
+  let peak = 0
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = from; i < to; i++) {
+      peak = Math.max(peak, Math.abs(data[i]))
+    }
+  }
+
+  // Silence stays silent rather than being blown up to noise
+  const gain = peak > 0 ? Math.pow(10, targetDecibels / 20) / peak : 1
+  return { ...mapRange(buffer, from, to, () => gain), operation: { type: "normalize", start: from, end: to } }
+}
+
+// Plays frames [start, end) backwards. Whatever sat at a frame in the range ends up mirrored
+// across it.
+export function reverseRange(buffer: AudioBuffer, start: number, end: number): EditResult {
+  const [from, to] = clampRange(buffer, start, end)
+  const result = createBuffer(buffer, buffer.length)
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const target = result.getChannelData(channel)
+    target.set(buffer.getChannelData(channel))
+    target.subarray(from, to).reverse()
+  }
+
+  return {
+    buffer: result,
+    mapFrame: (frame) => (frame >= from && frame <= to ? from + to - frame : frame),
+    operation: { type: "reverse", start: from, end: to },
+  }
+}
+
+// Freeverb's comb and allpass lengths at 44.1 kHz, the right channel's combs a little longer
+const COMB_TUNINGS = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617]
+const ALLPASS_TUNINGS = [556, 441, 341, 225]
+const STEREO_SPREAD = 23
+const COMB_INPUT_GAIN = 0.015
+const COMB_DAMPING = 0.2
+const ALLPASS_FEEDBACK = 0.5
+const REVERSE_REVERB_WET = 0.6
+
+// Wet output of a Schroeder-Moorer reverb whose combs decay by 60 dB over the given time
+function reverbWet(input: Float32Array, sampleRate: number, seconds: number, channel: number) {
+  const scale = sampleRate / 44100
+  const spread = channel % 2 === 1 ? STEREO_SPREAD : 0
+  const output = new Float32Array(input.length)
+
+  COMB_TUNINGS.forEach((tuning) => {
+    const length = Math.max(1, Math.round((tuning + spread) * scale))
+    const feedback = Math.pow(10, (-3 * length) / (seconds * sampleRate))
+    const line = new Float32Array(length)
+    let filtered = 0
+    for (let i = 0, position = 0; i < input.length; i++) {
+      const delayed = line[position]
+      output[i] += delayed
+      filtered = delayed * (1 - COMB_DAMPING) + filtered * COMB_DAMPING
+      line[position] = input[i] * COMB_INPUT_GAIN + filtered * feedback
+      position = position + 1 === length ? 0 : position + 1
+    }
+  })
+
+  ALLPASS_TUNINGS.forEach((tuning) => {
+    const length = Math.max(1, Math.round((tuning + spread) * scale))
+    const line = new Float32Array(length)
+    for (let i = 0, position = 0; i < output.length; i++) {
+      const delayed = line[position]
+      line[position] = output[i] + delayed * ALLPASS_FEEDBACK
+      output[i] = delayed - output[i]
+      position = position + 1 === length ? 0 : position + 1
+    }
+  })
+
+  return output
+}
+
+// Reverse, reverb, reverse again: the reverb swells up into each sound instead of trailing after
+// it. The swell starts the given number of seconds before the range and mixes into what's there,
+// so nothing moves.
+export function reverseReverbRange(buffer: AudioBuffer, start: number, end: number, seconds: number): EditResult {
+  const [from, to] = clampRange(buffer, start, end)
+  const tail = Math.max(0, Math.round(seconds * buffer.sampleRate))
+  const result = createBuffer(buffer, buffer.length)
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel)
+    const target = result.getChannelData(channel)
+    target.set(source)
+
+    const reversed = new Float32Array(to - from + tail)
+    reversed.set(source.subarray(from, to))
+    reversed.subarray(0, to - from).reverse()
+    const wet = reverbWet(reversed, buffer.sampleRate, Math.max(0.1, seconds), channel).reverse()
+
+    const offset = from - tail
+    for (let i = Math.max(0, -offset); i < wet.length && offset + i < target.length; i++) {
+      target[offset + i] += wet[i] * REVERSE_REVERB_WET
+    }
+  }
+
+  return {
+    buffer: result,
+    mapFrame: (frame) => frame,
+    operation: { type: "reverse-reverb", start: from, end: to, seconds },
+  }
+}
+
+// Runs a described edit again, giving the same result as when it was first made
+export function replayEdit(buffer: AudioBuffer, operation: EditOperation): EditResult {
+  switch (operation.type) {
+    case "trim":
+      return trimToRange(buffer, operation.start, operation.end)
+    case "delete":
+      return deleteRange(buffer, operation.start, operation.end)
+    case "normalize":
+      return normalizeRange(buffer, operation.start, operation.end)
+    case "reverse":
+      return reverseRange(buffer, operation.start, operation.end)
+    case "reverse-reverb":
+      return reverseReverbRange(buffer, operation.start, operation.end, operation.seconds)
+    case "paste": {
+      const clip = new AudioBuffer({
+        length: Math.max(1, operation.clip[0]?.length ?? 0),
+        numberOfChannels: Math.max(1, operation.clip.length),
+        sampleRate: buffer.sampleRate,
+      })
+      operation.clip.forEach((data, channel) => clip.copyToChannel(data, channel))
+      return pasteClip(buffer, clip, operation.start, operation.end)
+    }
+    case "silence":
+      return insertSilence(buffer, operation.start, operation.length)
+    case "fade":
+      return fadeRange(buffer, operation.start, operation.end, operation.direction, operation.curve)
+    case "gain":
+      return gainRange(buffer, operation.start, operation.end, operation.decibels)
+  }
+}
@@ -0,0 +1,74 @@
+export type EffectParamCurve = "linear" | "log"
+
+export type EffectParam = {
+  id: string
+  name: string
+  min: number
+  max: number
+  default: number
+  step?: number
+  unit?: string
+  // How slider travel maps onto the range; log suits frequencies and times
+  curve?: EffectParamCurve
+  // Named choices for a stepped parameter, the value is the index of the chosen one
+  options?: string[]
+  // Drawn at random for every new slot instead of starting at the default, for seeds
+  random?: boolean
+}
+
+export type EffectParamValues = Record<string, number>
+
+// Time constant used when gliding AudioParams to a new value
+const PARAM_SMOOTHING = 0.02
+
+const SLIDER_RESOLUTION = 1000
+
+export function getDefaultParams(params: EffectParam[] = []): EffectParamValues {
+  return Object.fromEntries(params.map((param) => [param.id, param.default]))
+}
+
+// Values for a new slot, the defaults with any random parameters drawn afresh
+export function getInitialParams(params: EffectParam[] = []): EffectParamValues {
+  return Object.fromEntries(
+    params.map((param) => [
+      param.id,
+      param.random ? clampParam(param, param.min + Math.random() * (param.max - param.min)) : param.default,
+    ]),
+  )
+}
+
+export function clampParam(param: EffectParam, value: number) {
+  const clamped = Math.min(param.max, Math.max(param.min, value))
+  return param.step ? Math.round(clamped / param.step) * param.step : clamped
+}
+
+// Slider position (0..SLIDER_RESOLUTION) for a parameter value
+export function paramToSlider(param: EffectParam, value: number) {
+  const ratio =
+    param.curve === "log"
+      ? Math.log(value / param.min) / Math.log(param.max / param.min)
+      : (value - param.min) / (param.max - param.min)
+  return Math.round(ratio * SLIDER_RESOLUTION)
+}
+
+export function sliderToParam(param: EffectParam, position: number) {
+  const ratio = position / SLIDER_RESOLUTION
+  const value =
+    param.curve === "log"
+      ? param.min * Math.pow(param.max / param.min, ratio)
+      : param.min + ratio * (param.max - param.min)
+  return clampParam(param, value)
+}
+
+export const PARAM_SLIDER_MAX = SLIDER_RESOLUTION
+
+export function formatParamValue(param: EffectParam, value: number) {
+  if (param.options) return param.options[Math.round(value)] ?? ""
+  const decimals = param.step !== undefined && param.step >= 1 ? 0 : Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 10 ? 1 : 2
+  return `${value.toFixed(decimals)}${param.unit ? ` ${param.unit}` : ""}`
+}
+
+// Glide an AudioParam to a new value without zipper noise
+export function rampParam(param: AudioParam, value: number, audioContext: BaseAudioContext) {
+  param.setTargetAtTime(value, audioContext.currentTime, PARAM_SMOOTHING)
+}
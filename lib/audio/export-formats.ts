@@ -0,0 +1,102 @@
+import { encodeFlac, FLAC_MIME_TYPE, type FlacBitDepth } from "@/lib/audio/flac"
+import { encodeMp3, MP3_MIME_TYPE, MP3_SAMPLE_RATES, type Mp3Bitrate } from "@/lib/audio/mp3"
+import { encodeOggOpus, OGG_OPUS_MIME_TYPE, OPUS_SAMPLE_RATE } from "@/lib/audio/ogg-opus"
+import { encodeWav, WAV_MIME_TYPE, type WavBitDepth } from "@/lib/audio/wav"
+
+export type ExportFormat = "wav" | "flac" | "mp3" | "opus"
+
+export type ExportSettings = {
+  format: ExportFormat
+  sampleRate: number
+  wavBitDepth: WavBitDepth
+  flacBitDepth: FlacBitDepth
+  mp3Mode: "cbr" | "vbr"
+  mp3Bitrate: Mp3Bitrate
+  mp3VbrQuality: number
+  opusBitrate: number
+}
+
+export type EncodedAudio = {
+  blob: Blob
+  extension: string
+  mimeType: string
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "wav", label: "WAV (uncompressed)" },
+  { value: "flac", label: "FLAC (lossless)" },
+  { value: "mp3", label: "MP3" },
+  { value: "opus", label: "Ogg Opus" },
+]
+
+export const EXPORT_SAMPLE_RATES = [22050, 32000, 44100, 48000, 96000]
+
+export const OPUS_BITRATES = [64000, 96000, 128000, 192000, 256000]
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "wav",
+  sampleRate: 44100,
+  wavBitDepth: 16,
+  flacBitDepth: 16,
+  mp3Mode: "cbr",
+  mp3Bitrate: 192,
+  mp3VbrQuality: 2,
+  opusBitrate: 128000,
+}
+
+// Sample rates each container can carry
+export function getSupportedSampleRates(format: ExportFormat) {
+  switch (format) {
+    case "mp3":
+      return EXPORT_SAMPLE_RATES.filter((rate) => MP3_SAMPLE_RATES.includes(rate))
+    case "opus":
+      return [OPUS_SAMPLE_RATE]
+    default:
+      return EXPORT_SAMPLE_RATES
+  }
+}
+
+// The sample rate to render at, falling back to the closest supported one for the format
+export function resolveExportSampleRate(settings: ExportSettings) {
+  const supported = getSupportedSampleRates(settings.format)
+  if (supported.includes(settings.sampleRate)) return settings.sampleRate
+
+  return supported.reduce((closest, rate) =>
+    Math.abs(rate - settings.sampleRate) < Math.abs(closest - settings.sampleRate) ? rate : closest,
+  )
+}
+
+// The buffer is expected to already be rendered at resolveExportSampleRate(settings)
+export async function encodeAudio(buffer: AudioBuffer, settings: ExportSettings): Promise<EncodedAudio> {
+  switch (settings.format) {
+    case "wav":
+      return {
+        blob: encodeWav(buffer, { bitDepth: settings.wavBitDepth }),
+        extension: "wav",
+        mimeType: WAV_MIME_TYPE,
+      }
+    case "flac":
+      return {
+        blob: encodeFlac(buffer, { bitDepth: settings.flacBitDepth }),
+        extension: "flac",
+        mimeType: FLAC_MIME_TYPE,
+      }
+    case "mp3":
+      return {
+        blob: await encodeMp3(
+          buffer,
+          settings.mp3Mode === "cbr"
+            ? { mode: "cbr", bitrate: settings.mp3Bitrate }
+            : { mode: "vbr", quality: settings.mp3VbrQuality },
+        ),
+        extension: "mp3",
+        mimeType: MP3_MIME_TYPE,
+      }
+    case "opus":
+      return {
+        blob: await encodeOggOpus(buffer, { bitrate: settings.opusBitrate }),
+        extension: "opus",
+        mimeType: OGG_OPUS_MIME_TYPE,
+      }
+  }
+}
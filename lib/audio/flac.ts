@@ -0,0 +1,261 @@
+import { BitWriter } from "@/lib/audio/bit-writer"
+
+export type FlacBitDepth = 16 | 24
+
+export type FlacOptions = {
+  bitDepth?: FlacBitDepth
+}
+
+export const FLAC_MIME_TYPE = "audio/flac"
+
+const BLOCK_SIZE = 4096
+const MAX_FIXED_ORDER = 4
+const MAX_PARTITION_ORDER = 6
+const MAX_RICE_PARAMETER = 14
+
+const SUBFRAME_CONSTANT = 0b000000
+const SUBFRAME_VERBATIM = 0b000001
+const SUBFRAME_FIXED = 0b001000
+
+const CRC8_TABLE = buildCrcTable(0x07, 8)
+const CRC16_TABLE = buildCrcTable(0x8005, 16)
+
+function buildCrcTable(polynomial: number, width: 8 | 16) {
+  const topBit = 1 << (width - 1)
+  const mask = (1 << width) - 1
+  const table = new Uint16Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8)
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask
+    }
+    table[i] = crc
+  }
+  return table
+}
+
+function crc8(data: Uint8Array) {
+  let crc = 0
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC8_TABLE[crc ^ data[i]]
+  }
+  return crc
+}
+
+function crc16(data: Uint8Array) {
+  let crc = 0
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ data[i]]) & 0xffff
+  }
+  return crc
+}
+
+// Residual of the fixed polynomial predictor of the given order
+function fixedResidual(samples: Int32Array, order: number, out: Int32Array) {
+  for (let i = order; i < samples.length; i++) {
+    switch (order) {
+      case 0:
+        out[i] = samples[i]
+        break
+      case 1:
+        out[i] = samples[i] - samples[i - 1]
+        break
+      case 2:
+        out[i] = samples[i] - 2 * samples[i - 1] + samples[i - 2]
+        break
+      case 3:
+        out[i] = samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]
+        break
+      case 4:
+        out[i] = samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4]
+        break
+    }
+  }
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1)
+
+// Estimated size in bits of a Rice-coded partition with the best parameter for its mean
+function riceCost(sum: number, count: number) {
+  if (count === 0) return { bits: 4, parameter: 0 }
+  const mean = sum / count
+  const parameter = mean > 1 ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean))) : 0
+  return { bits: 4 + count * (parameter + 1) + Math.floor(sum / 2 ** parameter), parameter }
+}
+
+type ResidualPlan = {
+  partitionOrder: number
+  parameters: number[]
+  bits: number
+}
+
+function planResidual(residual: Int32Array, predictorOrder: number): ResidualPlan {
+  const blockSize = residual.length
+
+  // Highest partition order that evenly splits the block and leaves room for the warm-up samples
+  let maxOrder = 0
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > predictorOrder
+  ) {
+    maxOrder++
+  }
+
+  const finestCount = 1 << maxOrder
+  const finestSize = blockSize >> maxOrder
+  let sums = new Array<number>(finestCount).fill(0)
+  for (let i = predictorOrder; i < blockSize; i++) {
+    sums[Math.floor(i / finestSize)] += zigzag(residual[i])
+  }
+
+  let best: ResidualPlan | null = null
+  for (let order = maxOrder; order >= 0; order--) {
+    const partitionSize = blockSize >> order
+    let bits = 6
+    const parameters: number[] = []
+    sums.forEach((sum, partition) => {
+      const count = partition === 0 ? partitionSize - predictorOrder : partitionSize
+      const cost = riceCost(sum, count)
+      bits += cost.bits
+      parameters.push(cost.parameter)
+    })
+
+    if (!best || bits < best.bits) {
+      best = { partitionOrder: order, parameters, bits }
+    }
+
+    // Merge neighbouring partitions for the next (coarser) order
+    sums = sums.filter((_, index) => index % 2 === 0).map((sum, index) => sum + sums[index * 2 + 1])
+  }
+
+  return best!
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number, scratch: Int32Array) {
+  // Silence and other constant blocks collapse to a single value
+  if (samples.every((sample) => sample === samples[0])) {
+    writer.writeBits(SUBFRAME_CONSTANT << 1, 8)
+    writer.writeBits(samples[0], bitDepth)
+    return
+  }
+
+  let bestOrder = 0
+  let bestPlan: ResidualPlan | null = null
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1)
+  for (let order = 0; order <= maxOrder; order++) {
+    fixedResidual(samples, order, scratch)
+    const plan = planResidual(scratch.subarray(0, samples.length), order)
+    const bits = plan.bits + order * bitDepth
+    if (!bestPlan || bits < bestPlan.bits + bestOrder * bitDepth) {
+      bestOrder = order
+      bestPlan = plan
+    }
+  }
+
+  if (!bestPlan || bestPlan.bits + bestOrder * bitDepth >= samples.length * bitDepth) {
+    writer.writeBits(SUBFRAME_VERBATIM << 1, 8)
+    samples.forEach((sample) => writer.writeBits(sample, bitDepth))
+    return
+  }
+
+  writer.writeBits((SUBFRAME_FIXED | bestOrder) << 1, 8)
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeBits(samples[i], bitDepth)
+  }
+
+  fixedResidual(samples, bestOrder, scratch)
+
+  // Partitioned Rice coding with 4-bit parameters
+  writer.writeBits(0b00, 2)
+  writer.writeBits(bestPlan.partitionOrder, 4)
+  const partitionSize = samples.length >> bestPlan.partitionOrder
+  bestPlan.parameters.forEach((parameter, partition) => {
+    writer.writeBits(parameter, 4)
+    const start = partition === 0 ? bestOrder : partition * partitionSize
+    const end = (partition + 1) * partitionSize
+    for (let i = start; i < end; i++) {
+      const value = zigzag(scratch[i])
+      writer.writeUnary(Math.floor(value / 2 ** parameter))
+      if (parameter > 0) {
+        writer.writeBits(value & ((1 << parameter) - 1), parameter)
+      }
+    }
+  })
+}
+
+// Frame numbers use the UTF-8 style variable length encoding
+function writeFrameNumber(writer: BitWriter, frameNumber: number) {
+  if (frameNumber < 0x80) {
+    writer.writeBits(frameNumber, 8)
+    return
+  }
+
+  const continuationBytes = frameNumber < 0x800 ? 1 : frameNumber < 0x10000 ? 2 : frameNumber < 0x200000 ? 3 : 4
+  const leadingBits = 6 - continuationBytes
+  const prefix = (0xff00 >> (continuationBytes + 1)) & 0xff
+  writer.writeBits(prefix | ((frameNumber >> (continuationBytes * 6)) & ((1 << leadingBits) - 1)), 8)
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | ((frameNumber >> (i * 6)) & 0x3f), 8)
+  }
+}
+
+// Encode an AudioBuffer as a FLAC stream using fixed predictors and partitioned Rice coding
+export function encodeFlac(buffer: AudioBuffer, { bitDepth = 16 }: FlacOptions = {}): Blob {
+  const numberOfChannels = Math.min(buffer.numberOfChannels, 8)
+  const sampleRate = buffer.sampleRate
+  const scale = 2 ** (bitDepth - 1) - 1
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+  const writer = new BitWriter()
+
+  // Stream marker and STREAMINFO (frame sizes and MD5 left as unknown)
+  writer.writeBytes([0x66, 0x4c, 0x61, 0x43]) // "fLaC"
+  writer.writeBits(1, 1) // last metadata block
+  writer.writeBits(0, 7) // STREAMINFO
+  writer.writeBits(34, 24)
+  writer.writeBits(BLOCK_SIZE, 16)
+  writer.writeBits(BLOCK_SIZE, 16)
+  writer.writeBits(0, 24)
+  writer.writeBits(0, 24)
+  writer.writeBits(sampleRate, 20)
+  writer.writeBits(numberOfChannels - 1, 3)
+  writer.writeBits(bitDepth - 1, 5)
+  writer.writeBits(buffer.length, 36)
+  writer.writeBytes(new Uint8Array(16))
+
+  const samples = new Int32Array(BLOCK_SIZE)
+  const scratch = new Int32Array(BLOCK_SIZE)
+
+  for (let frame = 0, start = 0; start < buffer.length; frame++, start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, buffer.length - start)
+    const frameStart = writer.length
+
+    // Frame header
+    writer.writeBits(0b11111111111110, 14)
+    writer.writeBits(0, 1) // reserved
+    writer.writeBits(0, 1) // fixed block size
+    writer.writeBits(0b0111, 4) // block size stored as 16 bits after the frame number
+    writer.writeBits(0b0000, 4) // sample rate from STREAMINFO
+    writer.writeBits(numberOfChannels - 1, 4) // independent channels
+    writer.writeBits(bitDepth === 16 ? 0b100 : 0b110, 3)
+    writer.writeBits(0, 1) // reserved
+    writeFrameNumber(writer, frame)
+    writer.writeBits(blockSize - 1, 16)
+    writer.writeBits(crc8(writer.slice(frameStart)), 8)
+
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const block = samples.subarray(0, blockSize)
+      const data = channels[channel]
+      for (let i = 0; i < blockSize; i++) {
+        const sample = Math.max(-1, Math.min(1, data[start + i]))
+        block[i] = Math.round(sample * scale)
+      }
+      writeSubframe(writer, block, bitDepth, scratch)
+    }
+
+    writer.alignToByte()
+    writer.writeBits(crc16(writer.slice(frameStart)), 16)
+  }
+
+  return new Blob([writer.toUint8Array()], { type: FLAC_MIME_TYPE })
+}
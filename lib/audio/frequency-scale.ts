@@ -0,0 +1,19 @@
+export type FrequencyScale = "linear" | "log" | "mel"
+
+// Lowest frequency shown on the log axis, where 0 Hz can't be placed
+const LOG_MIN_FREQUENCY = 20
+
+const toMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700)
+const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1)
+
+// Frequency at a position (0 = bottom, 1 = top) of an axis reaching up to nyquist
+export function frequencyAtPosition(scale: FrequencyScale, position: number, nyquist: number) {
+  switch (scale) {
+    case "log":
+      return LOG_MIN_FREQUENCY * Math.pow(nyquist / LOG_MIN_FREQUENCY, position)
+    case "mel":
+      return fromMel(position * toMel(nyquist))
+    default:
+      return position * nyquist
+  }
+}
@@ -0,0 +1,41 @@
+import { createMp3Encoder } from "wasm-media-encoders"
+
+export type Mp3Bitrate = 96 | 128 | 160 | 192 | 256 | 320
+
+export type Mp3Options =
+  | { mode: "cbr"; bitrate: Mp3Bitrate }
+  // LAME VBR quality, 0 is best and 9 is smallest
+  | { mode: "vbr"; quality: number }
+
+export const MP3_MIME_TYPE = "audio/mpeg"
+
+export const MP3_BITRATES: Mp3Bitrate[] = [96, 128, 160, 192, 256, 320]
+
+// Sample rates MPEG-1/2 Layer III can carry
+export const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000]
+
+const ENCODE_CHUNK_FRAMES = 1152 * 8
+
+// Encode with LAME compiled to WebAssembly
+export async function encodeMp3(buffer: AudioBuffer, options: Mp3Options): Promise<Blob> {
+  if (!MP3_SAMPLE_RATES.includes(buffer.sampleRate)) {
+    throw new Error(`MP3 does not support a ${buffer.sampleRate} Hz sample rate`)
+  }
+
+  const encoder = await createMp3Encoder()
+  const numberOfChannels = Math.min(buffer.numberOfChannels, 2) as 1 | 2
+  const quality = options.mode === "cbr" ? { bitrate: options.bitrate } : { vbrQuality: options.quality }
+  encoder.configure({ sampleRate: buffer.sampleRate, channels: numberOfChannels, ...quality })
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+  const parts: BlobPart[] = []
+
+  for (let start = 0; start < buffer.length; start += ENCODE_CHUNK_FRAMES) {
+    const end = Math.min(start + ENCODE_CHUNK_FRAMES, buffer.length)
+    // The returned view points into WASM memory and is reused, so copy it out
+    parts.push(encoder.encode(channels.map((data) => data.subarray(start, end))).slice())
+  }
+  parts.push(encoder.finalize().slice())
+
+  return new Blob(parts, { type: MP3_MIME_TYPE })
+}
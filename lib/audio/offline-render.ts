@@ -0,0 +1,121 @@
+import { loadAudioWorklets } from "@/lib/audio/worklets"
+
+type RenderOptions = {
+  buffer: AudioBuffer
+  // Connects the effect chain after the source and returns its last node, with the seconds the
+  // chain's output lags its input
+  buildChain: (audioContext: BaseAudioContext, source: AudioNode) => { output: AudioNode; latency: number }
+  playbackRate?: number
+  // Seconds rendered past the end of the source so reverb and delay tails ring out
+  tail?: number
+  onProgress?: (progress: number) => void
+}
+
+// Number of progress updates reported while rendering
+const PROGRESS_STEPS = 50
+const RENDER_QUANTUM = 128
+// Near-endless feedback would otherwise render minutes of fading repeats
+const MAX_TAIL = 30
+// Extra seconds rendered for effects that delay their output, such as the pitch shifter's frame.
+// The chain only reports its latency once built, after the render length is fixed.
+const LATENCY_ALLOWANCE = 1
+// Level below which the end of a rendered tail counts as silence and is trimmed
+const SILENCE_THRESHOLD = 1e-4
+
+export async function decodeAudioFile(file: Blob, sampleRate = 44100): Promise<AudioBuffer> {
+  const arrayBuffer = await file.arrayBuffer()
+
+  // decodeAudioData lives on BaseAudioContext, a one-frame offline context is enough to decode
+  const decodeContext = new OfflineAudioContext(2, 1, sampleRate)
+  return decodeContext.decodeAudioData(arrayBuffer)
+}
+
+// Converts a buffer to another sample rate by playing it through an offline context
+export async function resampleBuffer(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer
+
+  const offlineContext = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.max(1, Math.round(buffer.duration * sampleRate)),
+    sampleRate,
+  )
+  const source = offlineContext.createBufferSource()
+  source.buffer = buffer
+  source.connect(offlineContext.destination)
+  source.start(0)
+  return offlineContext.startRendering()
+}
+
+export async function renderOffline({
+  buffer,
+  buildChain,
+  playbackRate = 1,
+  tail = 0,
+  onProgress,
+}: RenderOptions): Promise<AudioBuffer> {
+  const sampleRate = buffer.sampleRate
+  const numberOfChannels = Math.max(2, buffer.numberOfChannels)
+  const sourceLength = Math.ceil(buffer.length / playbackRate)
+  const length = sourceLength + Math.ceil((Math.min(tail, MAX_TAIL) + LATENCY_ALLOWANCE) * sampleRate)
+  const offlineContext = new OfflineAudioContext(numberOfChannels, length, sampleRate)
+
+  const source = offlineContext.createBufferSource()
+  source.buffer = buffer
+  source.playbackRate.value = playbackRate
+
+  // Worklet effects need their processors registered on this context too
+  await loadAudioWorklets(offlineContext)
+
+  // Build the same chain the live graph uses
+  const chain = buildChain(offlineContext, source)
+  chain.output.connect(offlineContext.destination)
+  const latencyLength = Math.min(Math.round(chain.latency * sampleRate), length - sourceLength)
+
+  // OfflineAudioContext has no progress event, so suspend at regular intervals to report it
+  if (onProgress) {
+    const scheduledQuanta = new Set<number>()
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      // Suspend times are rounded to render quanta and must be unique
+      const quantum = Math.floor((length * step) / PROGRESS_STEPS / RENDER_QUANTUM)
+      if (quantum === 0 || scheduledQuanta.has(quantum)) continue
+      scheduledQuanta.add(quantum)
+
+      offlineContext.suspend((quantum * RENDER_QUANTUM) / sampleRate).then(() => {
+        onProgress(step / PROGRESS_STEPS)
+        offlineContext.resume()
+      })
+    }
+  }
+
+  source.start(0)
+  const rendered = await offlineContext.startRendering()
+  onProgress?.(1)
+
+  return trimRender(rendered, latencyLength, sourceLength)
+}
+
+// Drops the chain's latency from the start, so the output lines up with the source, and the silent
+// end of the tail allowance, never cutting into the source itself
+function trimRender(rendered: AudioBuffer, start: number, minLength: number): AudioBuffer {
+  let end = start + minLength
+  for (let channel = 0; channel < rendered.numberOfChannels; channel++) {
+    const data = rendered.getChannelData(channel)
+    for (let i = data.length - 1; i >= end; i--) {
+      if (Math.abs(data[i]) > SILENCE_THRESHOLD) {
+        end = i + 1
+        break
+      }
+    }
+  }
+  if (start === 0 && end === rendered.length) return rendered
+
+  const trimmed = new AudioBuffer({
+    numberOfChannels: rendered.numberOfChannels,
+    length: end - start,
+    sampleRate: rendered.sampleRate,
+  })
+  for (let channel = 0; channel < rendered.numberOfChannels; channel++) {
+    trimmed.copyToChannel(rendered.getChannelData(channel).subarray(start, end), channel)
+  }
+  return trimmed
+}
@@ -0,0 +1,169 @@
+export type OpusOptions = {
+  bitrate?: number
+}
+
+export const OGG_OPUS_MIME_TYPE = "audio/ogg; codecs=opus"
+
+// Ogg Opus always describes timestamps at 48 kHz
+export const OPUS_SAMPLE_RATE = 48000
+
+// 20 ms packets, the usual size for music
+const OPUS_FRAME_SIZE = 960
+const MAX_PACKETS_PER_PAGE = 50
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1
+    }
+    table[i] = crc >>> 0
+  }
+  return table
+})()
+
+function oggCrc(data: Uint8Array) {
+  let crc = 0
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0
+  }
+  return crc
+}
+
+const HEADER_TYPE_BOS = 0x02
+const HEADER_TYPE_EOS = 0x04
+
+class OggWriter {
+  private pages: BlobPart[] = []
+  private sequence = 0
+
+  constructor(private serial: number) {}
+
+  writePage(packets: Uint8Array[], granulePosition: number, headerType = 0) {
+    // Lacing values: each packet is split into 255-byte segments terminated by a shorter one
+    const segments: number[] = []
+    packets.forEach((packet) => {
+      let remaining = packet.length
+      while (remaining >= 255) {
+        segments.push(255)
+        remaining -= 255
+      }
+      segments.push(remaining)
+    })
+
+    const bodyLength = packets.reduce((total, packet) => total + packet.length, 0)
+    const page = new Uint8Array(27 + segments.length + bodyLength)
+    const view = new DataView(page.buffer)
+
+    page.set([0x4f, 0x67, 0x67, 0x53]) // "OggS"
+    view.setUint8(4, 0) // version
+    view.setUint8(5, headerType)
+    view.setUint32(6, granulePosition % 0x100000000, true)
+    view.setUint32(10, Math.floor(granulePosition / 0x100000000), true)
+    view.setUint32(14, this.serial, true)
+    view.setUint32(18, this.sequence++, true)
+    view.setUint8(26, segments.length)
+    page.set(segments, 27)
+
+    let offset = 27 + segments.length
+    packets.forEach((packet) => {
+      page.set(packet, offset)
+      offset += packet.length
+    })
+
+    view.setUint32(22, oggCrc(page), true)
+    this.pages.push(page)
+  }
+
+  toBlob(type: string) {
+    return new Blob(this.pages, { type })
+  }
+}
+
+// preSkip is the encoder lookahead, which players trim from the start
+function createOpusHead(numberOfChannels: number, inputSampleRate: number, preSkip: number) {
+  const head = new Uint8Array(19)
+  const view = new DataView(head.buffer)
+  head.set(new TextEncoder().encode("OpusHead"))
+  view.setUint8(8, 1) // version
+  view.setUint8(9, numberOfChannels)
+  view.setUint16(10, preSkip, true)
+  view.setUint32(12, inputSampleRate, true)
+  view.setInt16(16, 0, true) // output gain
+  view.setUint8(18, 0) // mapping family: mono/stereo
+  return head
+}
+
+function createOpusTags(vendor: string) {
+  const encoder = new TextEncoder()
+  const vendorBytes = encoder.encode(vendor)
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4)
+  const view = new DataView(tags.buffer)
+  tags.set(encoder.encode("OpusTags"))
+  view.setUint32(8, vendorBytes.length, true)
+  tags.set(vendorBytes, 12)
+  view.setUint32(12 + vendorBytes.length, 0, true) // no user comments
+  return tags
+}
+
+function encodeOpusPackets(buffer: AudioBuffer, bitrate: number): Promise<{ packets: Uint8Array[]; preSkip: number }> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./opus.worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<{ packets: Uint8Array[]; preSkip: number }>) => {
+      worker.terminate()
+      resolve(event.data)
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+
+    // Copies, so the rendered buffer stays usable on this thread
+    const numberOfChannels = Math.min(buffer.numberOfChannels, 2)
+    const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice())
+    worker.postMessage(
+      { channels, bitrate, frameSize: OPUS_FRAME_SIZE },
+      channels.map((channel) => channel.buffer),
+    )
+  })
+}
+
+// Encode with libopus compiled to WebAssembly and mux the packets into an Ogg container.
+// The buffer must be rendered at OPUS_SAMPLE_RATE.
+export async function encodeOggOpus(buffer: AudioBuffer, { bitrate = 128000 }: OpusOptions = {}): Promise<Blob> {
+  if (buffer.sampleRate !== OPUS_SAMPLE_RATE) {
+    throw new Error(`Ogg Opus export expects ${OPUS_SAMPLE_RATE} Hz audio, got ${buffer.sampleRate} Hz`)
+  }
+
+  const numberOfChannels = Math.min(buffer.numberOfChannels, 2)
+  const { packets, preSkip } = await encodeOpusPackets(buffer, bitrate)
+
+  const ogg = new OggWriter(Math.floor(Math.random() * 0xffffffff))
+  ogg.writePage([createOpusHead(numberOfChannels, buffer.sampleRate, preSkip)], 0, HEADER_TYPE_BOS)
+  ogg.writePage([createOpusTags("Musico 777")], 0)
+
+  // The final granule position trims the padding of the last packet
+  const endGranule = preSkip + buffer.length
+  let granule = 0
+  let pagePackets: Uint8Array[] = []
+  let pageSegments = 0
+
+  packets.forEach((packet, index) => {
+    pagePackets.push(packet)
+    pageSegments += Math.floor(packet.length / 255) + 1
+    granule += OPUS_FRAME_SIZE
+
+    const isLast = index === packets.length - 1
+    const next = packets[index + 1]
+    const nextSegments = next ? Math.floor(next.length / 255) + 1 : 0
+    if (isLast || pagePackets.length >= MAX_PACKETS_PER_PAGE || pageSegments + nextSegments > 255) {
+      ogg.writePage(pagePackets, isLast ? endGranule : Math.min(granule, endGranule), isLast ? HEADER_TYPE_EOS : 0)
+      pagePackets = []
+      pageSegments = 0
+    }
+  })
+
+  return ogg.toBlob(OGG_OPUS_MIME_TYPE)
+}
@@ -0,0 +1,43 @@
+// Encodes PCM to Opus packets off the main thread, where the encoder's WebAssembly can be compiled synchronously
+import { Encoder } from "@evan/wasm/target/opus/deno.js"
+
+type OpusRequest = {
+  channels: Float32Array[]
+  bitrate: number
+  frameSize: number
+}
+
+self.addEventListener("message", (event: MessageEvent<OpusRequest>) => {
+  const { channels, bitrate, frameSize } = event.data
+  const numberOfChannels = channels.length as 1 | 2
+  const length = channels[0]?.length ?? 0
+
+  const encoder = new Encoder({ channels: numberOfChannels, sample_rate: 48000, application: "audio" })
+  encoder.bitrate = bitrate
+  const preSkip = encoder.lookahead
+
+  // The encoder holds back preSkip samples, so keep feeding silence until the last real sample is out
+  const frameCount = Math.ceil((length + preSkip) / frameSize)
+  const pcm = new Int16Array(frameSize * numberOfChannels)
+  const packets: Uint8Array[] = []
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * frameSize
+    for (let i = 0; i < frameSize; i++) {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const sample = start + i < length ? channels[channel][start + i] : 0
+        const clamped = Math.max(-1, Math.min(1, sample))
+        pcm[i * numberOfChannels + channel] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff
+      }
+    }
+    packets.push(encoder.encode(pcm))
+  }
+  encoder.drop()
+
+  self.postMessage(
+    { packets, preSkip },
+    { transfer: packets.map((packet) => packet.buffer) },
+  )
+})
+
+export {}
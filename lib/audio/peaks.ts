@@ -0,0 +1,59 @@
+export type WaveformPeaks = {
+  sampleRate: number
+  samplesPerPeak: number
+  min: Float32Array
+  max: Float32Array
+}
+
+// Finest zoom level; coarser levels are derived from this when drawing
+const SAMPLES_PER_PEAK = 128
+
+const peaksCache = new WeakMap<AudioBuffer, Promise<WaveformPeaks>>()
+
+function computePeaks(buffer: AudioBuffer): Promise<WaveformPeaks> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./peaks.worker.ts", import.meta.url))
+
+    worker.onmessage = (event: MessageEvent<{ min: Float32Array; max: Float32Array }>) => {
+      worker.terminate()
+      resolve({ sampleRate: buffer.sampleRate, samplesPerPeak: SAMPLES_PER_PEAK, ...event.data })
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+
+    // Copies, so the decoded buffer stays usable on this thread
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+      buffer.getChannelData(channel).slice(),
+    )
+    worker.postMessage(
+      { channels, samplesPerPeak: SAMPLES_PER_PEAK },
+      channels.map((channel) => channel.buffer),
+    )
+  })
+}
+
+// Peaks are computed once per decoded file, and again for each edited version of it
+export function getWaveformPeaks(buffer: AudioBuffer) {
+  let peaks = peaksCache.get(buffer)
+  if (!peaks) {
+    peaks = computePeaks(buffer)
+    peaksCache.set(buffer, peaks)
+    peaks.catch(() => peaksCache.delete(buffer))
+  }
+  return peaks
+}
+
+// Min/max over a range of peaks, used when several peaks fall into one pixel
+export function peakRange(peaks: WaveformPeaks, fromPeak: number, toPeak: number) {
+  const start = Math.max(0, Math.floor(fromPeak))
+  const end = Math.min(peaks.min.length, Math.max(start + 1, Math.ceil(toPeak)))
+  let low = 0
+  let high = 0
+  for (let i = start; i < end; i++) {
+    if (peaks.min[i] < low) low = peaks.min[i]
+    if (peaks.max[i] > high) high = peaks.max[i]
+  }
+  return [low, high] as const
+}
@@ -0,0 +1,37 @@
+// Reduces decoded channels to min/max pairs so the waveform never has to touch raw samples
+
+type PeaksRequest = {
+  channels: Float32Array[]
+  samplesPerPeak: number
+}
+
+self.addEventListener("message", (event: MessageEvent<PeaksRequest>) => {
+  const { channels, samplesPerPeak } = event.data
+  const length = channels[0]?.length ?? 0
+  const peakCount = Math.ceil(length / samplesPerPeak)
+  const min = new Float32Array(peakCount)
+  const max = new Float32Array(peakCount)
+
+  for (let peak = 0; peak < peakCount; peak++) {
+    const start = peak * samplesPerPeak
+    const end = Math.min(length, start + samplesPerPeak)
+    let low = 0
+    let high = 0
+
+    // Channels are folded together, the display shows one combined waveform
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const sample = channel[i]
+        if (sample < low) low = sample
+        if (sample > high) high = sample
+      }
+    }
+
+    min[peak] = low
+    max[peak] = high
+  }
+
+  self.postMessage({ min, max }, { transfer: [min.buffer, max.buffer] })
+})
+
+export {}
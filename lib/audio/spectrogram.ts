@@ -0,0 +1,88 @@
+import type { FrequencyScale } from "@/lib/audio/frequency-scale"
+
+export type SpectrogramWindow = "hann" | "hamming" | "blackman" | "rectangular"
+
+export type SpectrogramSettings = {
+  fftSize: number
+  window: SpectrogramWindow
+  scale: FrequencyScale
+}
+
+// Levels for a run of columns, column-major with row 0 at the lowest frequency
+export type SpectrogramChunk = {
+  firstColumn: number
+  columns: number
+  levels: Uint8Array
+}
+
+export type SpectrogramJob = {
+  columns: number
+  rows: number
+  done: Promise<void>
+  cancel: () => void
+}
+
+export const FFT_SIZES = [512, 1024, 2048, 4096, 8192]
+
+export const SPECTROGRAM_WINDOWS: { value: SpectrogramWindow; label: string }[] = [
+  { value: "hann", label: "Hann" },
+  { value: "hamming", label: "Hamming" },
+  { value: "blackman", label: "Blackman" },
+  { value: "rectangular", label: "Rectangular" },
+]
+
+export const FREQUENCY_SCALES: { value: FrequencyScale; label: string }[] = [
+  { value: "linear", label: "Linear" },
+  { value: "log", label: "Logarithmic" },
+  { value: "mel", label: "Mel" },
+]
+
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
+  fftSize: 2048,
+  window: "hann",
+  scale: "log",
+}
+
+// Caps the work for long files, columns are spread evenly over the whole track
+const MAX_COLUMNS = 2048
+const ROWS = 256
+
+// Mixes the buffer down to mono and transforms it in a worker, reporting columns as they finish
+export function computeSpectrogram(
+  buffer: AudioBuffer,
+  settings: SpectrogramSettings,
+  onChunk: (chunk: SpectrogramChunk) => void,
+): SpectrogramJob {
+  const columns = Math.max(1, Math.min(MAX_COLUMNS, Math.ceil(buffer.length / (settings.fftSize / 4))))
+  const worker = new Worker(new URL("./spectrogram.worker.ts", import.meta.url))
+
+  const done = new Promise<void>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<({ type: "chunk" } & SpectrogramChunk) | { type: "done" }>) => {
+      if (event.data.type === "done") {
+        worker.terminate()
+        resolve()
+        return
+      }
+      onChunk(event.data)
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+  })
+
+  const samples = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+
+  worker.postMessage(
+    { samples, sampleRate: buffer.sampleRate, ...settings, columns, rows: ROWS },
+    [samples.buffer],
+  )
+
+  return { columns, rows: ROWS, done, cancel: () => worker.terminate() }
+}
@@ -0,0 +1,141 @@
+// Short-time Fourier transform of a mono signal, reported back in chunks of columns
+
+import { frequencyAtPosition, type FrequencyScale } from "@/lib/audio/frequency-scale"
+import type { SpectrogramWindow } from "@/lib/audio/spectrogram"
+
+type SpectrogramRequest = {
+  samples: Float32Array
+  sampleRate: number
+  fftSize: number
+  window: SpectrogramWindow
+  scale: FrequencyScale
+  columns: number
+  rows: number
+}
+
+// Columns computed between messages, small enough for the view to fill in visibly
+const CHUNK_COLUMNS = 32
+// Quietest level shown, everything below maps to the bottom of the color map
+const MIN_DECIBELS = -100
+
+function createWindow(type: SpectrogramWindow, size: number) {
+  const weights = new Float32Array(size)
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / (size - 1)
+    switch (type) {
+      case "hann":
+        weights[i] = 0.5 - 0.5 * Math.cos(phase)
+        break
+      case "hamming":
+        weights[i] = 0.54 - 0.46 * Math.cos(phase)
+        break
+      case "blackman":
+        weights[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+        break
+      default:
+        weights[i] = 1
+    }
+  }
+  return weights
+}
+
+// In-place iterative radix-2 FFT
+function fft(real: Float32Array, imag: Float32Array) {
+  const size = real.length
+
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imag[i], imag[j]] = [imag[j], imag[i]]
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length
+    const stepReal = Math.cos(angle)
+    const stepImag = Math.sin(angle)
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1
+      let twiddleImag = 0
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k
+        const odd = even + length / 2
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal
+        real[odd] = real[even] - oddReal
+        imag[odd] = imag[even] - oddImag
+        real[even] += oddReal
+        imag[even] += oddImag
+        ;[twiddleReal, twiddleImag] = [
+          twiddleReal * stepReal - twiddleImag * stepImag,
+          twiddleReal * stepImag + twiddleImag * stepReal,
+        ]
+      }
+    }
+  }
+}
+
+// FFT bins covered by each output row on the chosen frequency axis
+function createRowBins(scale: FrequencyScale, rows: number, fftSize: number, sampleRate: number) {
+  const nyquist = sampleRate / 2
+  const binCount = fftSize / 2
+  const toBin = (frequency: number) => Math.min(binCount, Math.floor((frequency / nyquist) * binCount))
+
+  return Array.from({ length: rows }, (_, row) => {
+    const from = toBin(frequencyAtPosition(scale, row / rows, nyquist))
+    const to = toBin(frequencyAtPosition(scale, (row + 1) / rows, nyquist))
+    return [from, Math.max(from, to)] as const
+  })
+}
+
+self.addEventListener("message", (event: MessageEvent<SpectrogramRequest>) => {
+  const { samples, sampleRate, fftSize, window: windowType, scale, columns, rows } = event.data
+  const weights = createWindow(windowType, fftSize)
+  const rowBins = createRowBins(scale, rows, fftSize, sampleRate)
+  const hop = Math.max(1, (samples.length - fftSize) / Math.max(1, columns - 1))
+
+  // Scales magnitudes so a full-scale sine reads 0 dB whatever the window
+  let windowSum = 0
+  for (let i = 0; i < fftSize; i++) windowSum += weights[i]
+  const gain = 2 / windowSum
+
+  const real = new Float32Array(fftSize)
+  const imag = new Float32Array(fftSize)
+  const magnitudes = new Float32Array(fftSize / 2 + 1)
+
+  for (let firstColumn = 0; firstColumn < columns; firstColumn += CHUNK_COLUMNS) {
+    const chunkColumns = Math.min(CHUNK_COLUMNS, columns - firstColumn)
+    // Column-major, row 0 is the lowest frequency
+    const levels = new Uint8Array(chunkColumns * rows)
+
+    for (let column = 0; column < chunkColumns; column++) {
+      const start = Math.round((firstColumn + column) * hop)
+      for (let i = 0; i < fftSize; i++) {
+        real[i] = (samples[start + i] ?? 0) * weights[i]
+        imag[i] = 0
+      }
+      fft(real, imag)
+
+      for (let bin = 0; bin < magnitudes.length; bin++) {
+        magnitudes[bin] = Math.hypot(real[bin], imag[bin]) * gain
+      }
+
+      for (let row = 0; row < rows; row++) {
+        const [from, to] = rowBins[row]
+        let magnitude = 0
+        for (let bin = from; bin <= to; bin++) {
+          magnitude = Math.max(magnitude, magnitudes[bin])
+        }
+        const decibels = 20 * Math.log10(magnitude + 1e-12)
+        levels[column * rows + row] = Math.max(0, Math.min(255, ((decibels - MIN_DECIBELS) / -MIN_DECIBELS) * 255))
+      }
+    }
+
+    self.postMessage({ type: "chunk", firstColumn, columns: chunkColumns, levels }, { transfer: [levels.buffer] })
+  }
+
+  self.postMessage({ type: "done" })
+})
@@ -0,0 +1,91 @@
+export type WavBitDepth = 16 | 24 | 32
+
+export type WavOptions = {
+  // 16 and 24 are integer PCM, 32 is IEEE float
+  bitDepth?: WavBitDepth
+}
+
+export const WAV_MIME_TYPE = "audio/wav"
+
+const WAVE_FORMAT_PCM = 1
+const WAVE_FORMAT_IEEE_FLOAT = 3
+
+// Encode an AudioBuffer as a RIFF/WAVE file at the buffer's own sample rate
+export function encodeWav(buffer: AudioBuffer, { bitDepth = 16 }: WavOptions = {}): Blob {
+  const isFloat = bitDepth === 32
+  const numberOfChannels = buffer.numberOfChannels
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = numberOfChannels * bytesPerSample
+  const dataSize = buffer.length * blockAlign
+
+  // Non-PCM formats need the extended fmt chunk and a fact chunk
+  const fmtSize = isFloat ? 18 : 16
+  const factSize = isFloat ? 12 : 0
+  const headerSize = 12 + 8 + fmtSize + factSize + 8
+  const view = new DataView(new ArrayBuffer(headerSize + dataSize + (dataSize % 2)))
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i))
+    }
+  }
+
+  // RIFF header
+  writeString(0, "RIFF")
+  view.setUint32(4, view.byteLength - 8, true)
+  writeString(8, "WAVE")
+
+  // fmt chunk
+  let offset = 12
+  writeString(offset, "fmt ")
+  view.setUint32(offset + 4, fmtSize, true)
+  view.setUint16(offset + 8, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true)
+  view.setUint16(offset + 10, numberOfChannels, true)
+  view.setUint32(offset + 12, buffer.sampleRate, true)
+  view.setUint32(offset + 16, buffer.sampleRate * blockAlign, true)
+  view.setUint16(offset + 20, blockAlign, true)
+  view.setUint16(offset + 22, bitDepth, true)
+  if (isFloat) {
+    view.setUint16(offset + 24, 0, true) // cbSize
+  }
+  offset += 8 + fmtSize
+
+  // fact chunk (frames per channel)
+  if (isFloat) {
+    writeString(offset, "fact")
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, buffer.length, true)
+    offset += factSize
+  }
+
+  // data chunk
+  writeString(offset, "data")
+  view.setUint32(offset + 4, dataSize, true)
+  offset += 8
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = channels[channel][i]
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true)
+      } else {
+        const clamped = Math.max(-1, Math.min(1, sample))
+        if (bitDepth === 16) {
+          view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true)
+        } else {
+          // 24-bit little endian, written byte by byte
+          const value = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff)
+          view.setUint8(offset, value & 0xff)
+          view.setUint8(offset + 1, (value >> 8) & 0xff)
+          view.setUint8(offset + 2, (value >> 16) & 0xff)
+        }
+      }
+
+      offset += bytesPerSample
+    }
+  }
+
+  return new Blob([view], { type: WAV_MIME_TYPE })
+}
@@ -0,0 +1,51 @@
+import { rampParam, type EffectParamValues } from "@/lib/audio/effect-params"
+
+// Processor modules served from public/worklets, registered under the same names
+const WORKLET_MODULES = [
+  "bitcrusher-processor",
+  "granular-processor",
+  "glitch-processor",
+  "stutter-processor",
+  "dropout-processor",
+  "autotune-processor",
+  "pitch-shift-processor",
+  "vocoder-processor",
+]
+
+const readyContexts = new WeakSet<BaseAudioContext>()
+
+// Registers every processor on the context. Effects fall back to ScriptProcessor when this fails.
+export async function loadAudioWorklets(audioContext: BaseAudioContext) {
+  if (readyContexts.has(audioContext)) return true
+  if (!audioContext.audioWorklet) return false
+
+  try {
+    await Promise.all(WORKLET_MODULES.map((name) => audioContext.audioWorklet.addModule(`/worklets/${name}.js`)))
+    readyContexts.add(audioContext)
+    return true
+  } catch (error) {
+    console.error("Error loading audio worklets:", error)
+    return false
+  }
+}
+
+export function hasAudioWorklets(audioContext: BaseAudioContext) {
+  return readyContexts.has(audioContext)
+}
+
+// Creates a processor node whose AudioParams share ids with the effect parameters
+export function createWorkletNode(
+  audioContext: BaseAudioContext,
+  name: string,
+  params: EffectParamValues = {},
+  options: AudioWorkletNodeOptions = {},
+) {
+  const node = new AudioWorkletNode(audioContext, name, { ...options, parameterData: params })
+
+  const setParam = (id: string, value: number) => {
+    const param = node.parameters.get(id)
+    if (param) rampParam(param, value, audioContext)
+  }
+
+  return { node, setParam }
+}
@@ -0,0 +1,62 @@
+import { FACTORY_PRESETS } from "@/lib/presets/factory"
+
+// The app's IndexedDB database. Schema changes bump the version and add a step to upgrade,
+// which runs every step the stored database hasn't seen yet.
+const DB_NAME = "musico"
+const DB_VERSION = 2
+
+export const PRESET_STORE = "presets"
+export const SESSION_STORE = "session"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function upgrade(database: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) {
+    database.createObjectStore(PRESET_STORE, { keyPath: "presetId" })
+    // The factory bank is copied in once, after that it's edited like any other preset
+    const presets = transaction.objectStore(PRESET_STORE)
+    FACTORY_PRESETS.forEach((preset) => presets.put(preset))
+  }
+  if (oldVersion < 2) {
+    database.createObjectStore(SESSION_STORE)
+  }
+}
+
+export function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, request.transaction!, event.oldVersion)
+    }
+    request.onsuccess = () => {
+      // Another tab upgrading the schema needs this connection out of the way
+      request.result.onversionchange = () => {
+        request.result.close()
+        databasePromise = null
+      }
+      resolve(request.result)
+    }
+    request.onerror = () => reject(request.error)
+  }).catch((error) => {
+    // A failed open is retried on the next call instead of failing forever
+    databasePromise = null
+    throw error
+  })
+  return databasePromise
+}
+
+// Runs the operations in one transaction and resolves once it has committed
+export async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T> | void,
+) {
+  const database = await openDatabase()
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode)
+    const request = operate(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
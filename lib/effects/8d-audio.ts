@@ -0,0 +1,47 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const eightDAudio: EffectDefinition = {
+  id: 2,
+  slug: "8d-audio",
+  name: "8D Audio",
+  description: "Rotating spatial effect",
+  category: "spatial",
+  icon: Headphones,
+  params: [
+    { id: "speed", name: "Speed", min: 0.05, max: 2, default: 0.3, unit: "Hz", curve: "log" },
+    { id: "width", name: "Width", min: 0, max: 1, default: 1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    const panner = nodes.add(audioContext.createStereoPanner())
+    panner.pan.value = 0
+
+    // Sweep the pan with an LFO so the motion is sample-accurate and also renders offline
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.speed
+
+    const depth = nodes.add(audioContext.createGain())
+    depth.gain.value = params.width
+
+    oscillator.connect(depth)
+    depth.connect(panner.pan)
+    oscillator.start()
+
+    input.connect(panner)
+    return {
+      input,
+      output: panner,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "speed") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "width") rampParam(depth.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,53 @@
+import { Radio } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const amRadio: EffectDefinition = {
+  id: 18,
+  slug: "am-radio",
+  name: "AM Radio",
+  description: "Old radio effect",
+  category: "retro",
+  icon: Radio,
+  params: [
+    { id: "lowCut", name: "Low Cut", min: 200, max: 1000, default: 500, unit: "Hz", curve: "log" },
+    { id: "highCut", name: "High Cut", min: 2000, max: 6000, default: 4000, unit: "Hz", curve: "log" },
+    { id: "drive", name: "Drive", min: 0, max: 100, default: 20, step: 1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create filters for AM radio sound
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.highCut
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = params.lowCut
+
+    // Create a gain node for distortion
+    const distortion = nodes.add(audioContext.createWaveShaper())
+
+    distortion.curve = makeDistortionCurve(params.drive)
+
+    // Connect the nodes
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    lowPass.connect(distortion)
+
+    return {
+      input,
+      output: distortion,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "lowCut") rampParam(highPass.frequency, value, audioContext)
+        if (id === "highCut") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+      },
+    }
+  },
+}
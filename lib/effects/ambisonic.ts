@@ -0,0 +1,73 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const ambisonic: EffectDefinition = {
+  id: 31,
+  slug: "ambisonic",
+  name: "Ambisonic",
+  description: "Full-sphere surround",
+  category: "spatial",
+  icon: Headphones,
+  params: [{ id: "size", name: "Room Size", min: 5, max: 50, default: 10, unit: "ms" }],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a simple ambisonic-like effect
+    const frontLeft = nodes.add(audioContext.createStereoPanner())
+    frontLeft.pan.value = -0.7
+
+    const frontRight = nodes.add(audioContext.createStereoPanner())
+    frontRight.pan.value = 0.7
+
+    const rearLeft = nodes.add(audioContext.createStereoPanner())
+    rearLeft.pan.value = -1
+
+    const rearRight = nodes.add(audioContext.createStereoPanner())
+    rearRight.pan.value = 1
+
+    const frontLeftDelay = nodes.add(audioContext.createDelay())
+    frontLeftDelay.delayTime.value = params.size / 1000
+
+    const frontRightDelay = nodes.add(audioContext.createDelay())
+    frontRightDelay.delayTime.value = params.size / 1000
+
+    const rearLeftDelay = nodes.add(audioContext.createDelay())
+    rearLeftDelay.delayTime.value = (params.size * 2) / 1000
+
+    const rearRightDelay = nodes.add(audioContext.createDelay())
+    rearRightDelay.delayTime.value = (params.size * 2) / 1000
+
+    input.connect(frontLeftDelay)
+    input.connect(frontRightDelay)
+    input.connect(rearLeftDelay)
+    input.connect(rearRightDelay)
+
+    frontLeftDelay.connect(frontLeft)
+    frontRightDelay.connect(frontRight)
+    rearLeftDelay.connect(rearLeft)
+    rearRightDelay.connect(rearRight)
+
+    const merger = nodes.add(audioContext.createGain())
+    frontLeft.connect(merger)
+    frontRight.connect(merger)
+    rearLeft.connect(merger)
+    rearRight.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "size") {
+          rampParam(frontLeftDelay.delayTime, value / 1000, audioContext)
+          rampParam(frontRightDelay.delayTime, value / 1000, audioContext)
+          rampParam(rearLeftDelay.delayTime, (value * 2) / 1000, audioContext)
+          rampParam(rearRightDelay.delayTime, (value * 2) / 1000, audioContext)
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,19 @@
+import { Mic } from "lucide-react"
+import { KEY_OPTIONS, SCALE_OPTIONS, createPitchCorrector } from "./dsp"
+import type { EffectDefinition } from "./types"
+
+export const autoTune: EffectDefinition = {
+  id: 21,
+  slug: "auto-tune",
+  name: "Auto-Tune",
+  description: "Pitch correction",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "key", name: "Key", min: 0, max: 11, default: 0, step: 1, options: KEY_OPTIONS },
+    { id: "scale", name: "Scale", min: 0, max: SCALE_OPTIONS.length - 1, default: 1, step: 1, options: SCALE_OPTIONS },
+    { id: "retune", name: "Retune Speed", min: 0, max: 400, default: 50, step: 1, unit: "ms" },
+    { id: "humanize", name: "Humanize", min: 0, max: 1, default: 0.2 },
+  ],
+  create: createPitchCorrector,
+}
@@ -0,0 +1,19 @@
+import { Mic } from "lucide-react"
+import { KEY_OPTIONS, SCALE_OPTIONS, createPitchCorrector } from "./dsp"
+import type { EffectDefinition } from "./types"
+
+// The hard-tuned robotic sound: the same engine as Auto-Tune with the correction applied instantly
+export const autotuneExtreme: EffectDefinition = {
+  id: 42,
+  slug: "autotune-extreme",
+  name: "Autotune Extreme",
+  description: "Instant, robotic pitch correction",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "key", name: "Key", min: 0, max: 11, default: 0, step: 1, options: KEY_OPTIONS },
+    { id: "scale", name: "Scale", min: 0, max: SCALE_OPTIONS.length - 1, default: 0, step: 1, options: SCALE_OPTIONS },
+    { id: "humanize", name: "Humanize", min: 0, max: 1, default: 0 },
+  ],
+  create: (audioContext, params) => createPitchCorrector(audioContext, { ...params, retune: 0 }),
+}
@@ -0,0 +1,36 @@
+import { Volume2 } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const bassBoost: EffectDefinition = {
+  id: 1,
+  slug: "bass-boost",
+  name: "Bass Boost",
+  description: "Enhance low frequencies",
+  category: "basic",
+  icon: Volume2,
+  params: [
+    { id: "gain", name: "Boost", min: 0, max: 24, default: 15, step: 0.5, unit: "dB" },
+    { id: "frequency", name: "Frequency", min: 40, max: 250, default: 100, unit: "Hz", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    const filter = nodes.add(audioContext.createBiquadFilter())
+    filter.type = "lowshelf"
+    filter.frequency.value = params.frequency
+    filter.gain.value = params.gain
+    input.connect(filter)
+    return {
+      input,
+      output: filter,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "gain") rampParam(filter.gain, value, audioContext)
+        if (id === "frequency") rampParam(filter.frequency, value, audioContext)
+      },
+    }
+  },
+}
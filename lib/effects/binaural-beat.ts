@@ -0,0 +1,74 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const binauralBeat: EffectDefinition = {
+  id: 30,
+  slug: "binaural-beat",
+  name: "Binaural Beat",
+  description: "Create frequency difference",
+  category: "spatial",
+  icon: Headphones,
+  params: [
+    { id: "carrier", name: "Carrier", min: 50, max: 500, default: 200, unit: "Hz", curve: "log" },
+    { id: "beat", name: "Beat", min: 1, max: 40, default: 10, unit: "Hz" },
+    { id: "level", name: "Level", min: 0, max: 0.5, default: 0.1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a binaural beat effect
+    const leftOsc = nodes.add(audioContext.createOscillator())
+    leftOsc.frequency.value = params.carrier
+    leftOsc.type = "sine"
+
+    const rightOsc = nodes.add(audioContext.createOscillator())
+    rightOsc.frequency.value = params.carrier + params.beat
+    rightOsc.type = "sine"
+
+    const leftGain = nodes.add(audioContext.createGain())
+    leftGain.gain.value = params.level
+
+    const rightGain = nodes.add(audioContext.createGain())
+    rightGain.gain.value = params.level
+
+    const leftPanner = nodes.add(audioContext.createStereoPanner())
+    leftPanner.pan.value = -1
+
+    const rightPanner = nodes.add(audioContext.createStereoPanner())
+    rightPanner.pan.value = 1
+
+    leftOsc.connect(leftGain)
+    rightOsc.connect(rightGain)
+
+    leftGain.connect(leftPanner)
+    rightGain.connect(rightPanner)
+
+    leftOsc.start()
+    rightOsc.start()
+
+    const merger = nodes.add(audioContext.createGain())
+    input.connect(merger)
+    leftPanner.connect(merger)
+    rightPanner.connect(merger)
+
+    const current = { ...params }
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        current[id] = value
+        if (id === "level") {
+          rampParam(leftGain.gain, value, audioContext)
+          rampParam(rightGain.gain, value, audioContext)
+        } else {
+          rampParam(leftOsc.frequency, current.carrier, audioContext)
+          rampParam(rightOsc.frequency, current.carrier + current.beat, audioContext)
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,68 @@
+import { Laptop } from "lucide-react"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const bitcrusher: EffectDefinition = {
+  id: 19,
+  slug: "bitcrusher",
+  name: "Bitcrusher",
+  description: "Reduce bit depth",
+  category: "experimental",
+  icon: Laptop,
+  params: [
+    { id: "bitDepth", name: "Bit Depth", min: 1, max: 16, default: 4, step: 1, unit: "bits" },
+    { id: "downsample", name: "Downsample", min: 1, max: 16, default: 4, step: 1, unit: "x" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Worklets run off the main thread; the script processor below is only a fallback
+    if (hasAudioWorklets(audioContext)) {
+      const { node, setParam } = createWorkletNode(audioContext, "bitcrusher-processor", params)
+      nodes.add(node)
+      input.connect(node)
+      return { input, output: node, dispose: nodes.dispose, setParam }
+    }
+
+    // Create a script processor for bit crushing
+    const bufferSize = 4096
+    let normalizationFactor = Math.pow(2, params.bitDepth - 1)
+    let downsample = params.downsample
+
+    const scriptProcessor = nodes.add(audioContext.createScriptProcessor(bufferSize, 1, 1))
+
+    scriptProcessor.onaudioprocess = (event) => {
+      const inputBuffer = event.inputBuffer
+      const outputBuffer = event.outputBuffer
+
+      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
+        const inputData = inputBuffer.getChannelData(channel)
+        const outputData = outputBuffer.getChannelData(channel)
+
+        for (let i = 0; i < inputData.length; i++) {
+          // Reduce bit depth
+          outputData[i] = Math.round(inputData[i] * normalizationFactor) / normalizationFactor
+
+          // Reduce sample rate (hold every nth sample)
+          if (i % downsample !== 0) {
+            outputData[i] = outputData[i - (i % downsample)]
+          }
+        }
+      }
+    }
+
+    input.connect(scriptProcessor)
+
+    return {
+      input,
+      output: scriptProcessor,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "bitDepth") normalizationFactor = Math.pow(2, value - 1)
+        if (id === "downsample") downsample = value
+      },
+    }
+  },
+}
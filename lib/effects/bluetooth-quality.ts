@@ -0,0 +1,93 @@
+import { Bluetooth } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+// Main-thread fallback for the dropout worklet
+function createScriptDropout(audioContext: BaseAudioContext, initialDropouts: number) {
+  const bufferSize = 4096
+  const scriptProcessor = audioContext.createScriptProcessor(bufferSize, 1, 1)
+  let dropouts = initialDropouts
+
+  scriptProcessor.onaudioprocess = (event) => {
+    const inputBuffer = event.inputBuffer
+    const outputBuffer = event.outputBuffer
+
+    for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
+      const inputData = inputBuffer.getChannelData(channel)
+      const outputData = outputBuffer.getChannelData(channel)
+
+      for (let i = 0; i < inputData.length; i++) {
+        // Randomly drop samples
+        if (Math.random() < dropouts) {
+          outputData[i] = 0
+        } else {
+          outputData[i] = inputData[i]
+        }
+      }
+    }
+  }
+
+  return {
+    node: scriptProcessor,
+    setParam: (id: string, value: number) => {
+      if (id === "dropouts") dropouts = value
+    },
+  }
+}
+
+export const bluetoothQuality: EffectDefinition = {
+  id: 43,
+  slug: "bluetooth-quality",
+  name: "Bluetooth Quality",
+  description: "Bluetooth audio simulation",
+  category: "retro",
+  icon: Bluetooth,
+  params: [
+    { id: "bandwidth", name: "Bandwidth", min: 2000, max: 8000, default: 4000, unit: "Hz", curve: "log" },
+    { id: "dropouts", name: "Dropouts", min: 0, max: 0.05, default: 0.01 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a bluetooth quality effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.bandwidth
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = 200
+
+    // Add compression
+    const compressor = nodes.add(audioContext.createDynamicsCompressor())
+    compressor.threshold.value = -20
+    compressor.knee.value = 5
+    compressor.ratio.value = 12
+    compressor.attack.value = 0
+    compressor.release.value = 0.25
+
+    // Add artifacts, off the main thread when worklets are available
+    const dropout = hasAudioWorklets(audioContext)
+      ? createWorkletNode(audioContext, "dropout-processor", { dropouts: params.dropouts })
+      : createScriptDropout(audioContext, params.dropouts)
+    nodes.add(dropout.node)
+
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    lowPass.connect(compressor)
+    compressor.connect(dropout.node)
+
+    return {
+      input,
+      output: dropout.node,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "bandwidth") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "dropouts") dropout.setParam(id, value)
+      },
+    }
+  },
+}
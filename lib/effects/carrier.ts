@@ -0,0 +1,25 @@
+// The uploaded audio vocoders use when their carrier is set to a file. Every vocoder slot shares
+// it, and running ones switch over as soon as it changes. It isn't saved with the session.
+export type VocoderCarrier = {
+  name: string
+  buffer: AudioBuffer
+}
+
+let carrier: VocoderCarrier | null = null
+const listeners = new Set<() => void>()
+
+export function getVocoderCarrier() {
+  return carrier
+}
+
+export function setVocoderCarrier(next: VocoderCarrier | null) {
+  carrier = next
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeVocoderCarrier(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
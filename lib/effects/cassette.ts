@@ -0,0 +1,77 @@
+import { Radio } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNoiseSource } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const cassette: EffectDefinition = {
+  id: 34,
+  slug: "cassette",
+  name: "Cassette",
+  description: "Tape deck sound",
+  category: "retro",
+  icon: Radio,
+  params: [
+    { id: "tone", name: "Tone", min: 2000, max: 12000, default: 6000, unit: "Hz", curve: "log" },
+    { id: "wowRate", name: "Wow Rate", min: 0.1, max: 5, default: 0.5, unit: "Hz", curve: "log" },
+    { id: "wowDepth", name: "Wow Depth", min: 0, max: 10, default: 5, unit: "ms" },
+    { id: "hiss", name: "Hiss", min: 0, max: 0.05, default: 0.01 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a cassette tape effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.tone
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = 100
+
+    // Add wow and flutter
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.wowRate
+
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.wowDepth / 1000
+
+    // Create a delay for pitch variation
+    const delay = nodes.add(audioContext.createDelay())
+    delay.delayTime.value = 0.01
+
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(delay.delayTime)
+    oscillator.start()
+
+    // Add noise
+    const noiseGain = nodes.add(audioContext.createGain())
+    noiseGain.gain.value = params.hiss
+
+    const noise = nodes.add(createNoiseSource(audioContext))
+
+    noise.connect(noiseGain)
+
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    lowPass.connect(delay)
+
+    const merger = nodes.add(audioContext.createGain())
+    delay.connect(merger)
+    noiseGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "tone") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "wowRate") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "wowDepth") rampParam(oscillatorGain.gain, value / 1000, audioContext)
+        if (id === "hiss") rampParam(noiseGain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,64 @@
+import { Waves } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const cathedral: EffectDefinition = {
+  id: 46,
+  slug: "cathedral",
+  name: "Cathedral",
+  description: "Church acoustics",
+  category: "spatial",
+  icon: Waves,
+  defaultMix: 0.7,
+  params: [
+    { id: "length", name: "Length", min: 2, max: 12, default: 8, unit: "s" },
+  ],
+  tail: (params) => params.length,
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a cathedral reverb effect
+    const convolver = nodes.add(audioContext.createConvolver())
+
+    // Create impulse response for cathedral
+    const createImpulse = (seconds: number) => {
+      const sampleRate = audioContext.sampleRate
+      const length = Math.floor(sampleRate * seconds)
+      const impulse = audioContext.createBuffer(2, length, sampleRate)
+      const leftChannel = impulse.getChannelData(0)
+      const rightChannel = impulse.getChannelData(1)
+
+      // Fill the impulse buffer with a cathedral-like reverb
+      for (let i = 0; i < length; i++) {
+        const t = i / sampleRate
+        const decay = Math.exp(-t * 0.5) // Slow decay
+
+        // Add some early reflections
+        if (i < sampleRate * 0.1) {
+          const earlyReflections = Math.random() * 0.5 + 0.5
+          leftChannel[i] = earlyReflections * decay
+          rightChannel[i] = earlyReflections * decay
+        } else {
+          leftChannel[i] = (Math.random() * 2 - 1) * decay * 0.5
+          rightChannel[i] = (Math.random() * 2 - 1) * decay * 0.5
+        }
+      }
+      return impulse
+    }
+
+    convolver.buffer = createImpulse(params.length)
+
+    input.connect(convolver)
+
+    return {
+      input,
+      output: convolver,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "length") convolver.buffer = createImpulse(value)
+      },
+    }
+  },
+}
@@ -0,0 +1,100 @@
+import { getInitialParams, rampParam, type EffectParamValues } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition, EffectInstance } from "./types"
+
+// One position in the processing chain. The same effect can appear in several slots,
+// each with its own settings.
+export type EffectSlot = {
+  slotId: string
+  effectId: number
+  bypassed: boolean
+  // Wet share of the slot output, the rest is the dry input
+  mix: number
+  params: EffectParamValues
+}
+
+export type ResolvedSlot = EffectSlot & { effect: EffectDefinition }
+
+// An effect wrapped with parallel dry and wet paths. Bypassing only moves the gains, so the
+// effect keeps running and can come back without a gap.
+export type SlotNode = {
+  input: AudioNode
+  output: AudioNode
+  instance: EffectInstance
+  setMix: (mix: number, bypassed: boolean) => void
+  // Seconds the slot's output lags its input, the same on the dry and wet paths
+  latency: number
+  // Passes a parameter to the effect only when it differs from the value the effect already has,
+  // since some effects rebuild on every call (reverbs draw a new impulse response)
+  setParam: (paramId: string, value: number) => void
+  dispose: () => void
+}
+
+function createSlotId() {
+  return `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createSlot(effect: EffectDefinition, params?: EffectParamValues): EffectSlot {
+  return {
+    slotId: createSlotId(),
+    effectId: effect.id,
+    bypassed: false,
+    mix: effect.defaultMix ?? 1,
+    // Stored values layered over the defaults, so parameters added later are always present
+    params: { ...getInitialParams(effect.params), ...params },
+  }
+}
+
+export function cloneSlot(slot: EffectSlot): EffectSlot {
+  return { ...slot, slotId: createSlotId(), params: { ...slot.params } }
+}
+
+export function createSlotNode(audioContext: BaseAudioContext, effect: EffectDefinition, slot: EffectSlot): SlotNode {
+  const nodes = createNodeGroup()
+  const input = nodes.add(audioContext.createGain())
+  const dryGain = nodes.add(audioContext.createGain())
+  const wetGain = nodes.add(audioContext.createGain())
+  const output = nodes.add(audioContext.createGain())
+
+  const wetLevel = (mix: number, bypassed: boolean) => (bypassed ? 0 : effect.wetOnly ? 1 : mix)
+  dryGain.gain.value = 1 - wetLevel(slot.mix, slot.bypassed)
+  wetGain.gain.value = wetLevel(slot.mix, slot.bypassed)
+
+  const instance = effect.create(audioContext, slot.params)
+  const params = { ...slot.params }
+  const latency = instance.latency ?? 0
+
+  // An effect that lags would comb-filter against an undelayed dry signal
+  if (latency > 0) {
+    const dryDelay = nodes.add(audioContext.createDelay(latency))
+    dryDelay.delayTime.value = latency
+    input.connect(dryDelay)
+    dryDelay.connect(dryGain)
+  } else {
+    input.connect(dryGain)
+  }
+  dryGain.connect(output)
+  input.connect(instance.input)
+  instance.output.connect(wetGain)
+  wetGain.connect(output)
+
+  return {
+    input,
+    output,
+    instance,
+    setMix: (mix, bypassed) => {
+      rampParam(dryGain.gain, 1 - wetLevel(mix, bypassed), audioContext)
+      rampParam(wetGain.gain, wetLevel(mix, bypassed), audioContext)
+    },
+    latency,
+    setParam: (paramId, value) => {
+      if (params[paramId] === value) return
+      params[paramId] = value
+      instance.setParam?.(paramId, value)
+    },
+    dispose: () => {
+      instance.dispose()
+      nodes.dispose()
+    },
+  }
+}
@@ -0,0 +1,43 @@
+import { Mic } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createPitchShifter } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const chipmunk: EffectDefinition = {
+  id: 27,
+  slug: "chipmunk",
+  name: "Chipmunk",
+  description: "High-pitched voice",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "semitones", name: "Pitch", min: 1, max: 24, default: 7, step: 1, unit: "st" },
+    { id: "cutoff", name: "Thinness", min: 100, max: 2000, default: 500, unit: "Hz", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const shifter = createPitchShifter(audioContext, { semitones: params.semitones })
+
+    // Thin out the shifted voice
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = params.cutoff
+
+    shifter.output.connect(highPass)
+
+    return {
+      input: shifter.input,
+      output: highPass,
+      latency: shifter.latency,
+      dispose: () => {
+        shifter.dispose()
+        nodes.dispose()
+      },
+      setParam: (id, value) => {
+        if (id === "semitones") shifter.setParam?.(id, value)
+        if (id === "cutoff") rampParam(highPass.frequency, value, audioContext)
+      },
+    }
+  },
+}
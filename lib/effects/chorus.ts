@@ -0,0 +1,68 @@
+import { Mic2 } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const chorus: EffectDefinition = {
+  id: 11,
+  slug: "chorus",
+  name: "Chorus",
+  description: "Vocal thickening",
+  category: "basic",
+  icon: Mic2,
+  params: [
+    { id: "rate", name: "Rate", min: 0.1, max: 5, default: 0.5, unit: "Hz", curve: "log" },
+    { id: "depth", name: "Depth", min: 0, max: 10, default: 2, unit: "ms" },
+    { id: "delay", name: "Delay", min: 10, max: 50, default: 30, unit: "ms" },
+    { id: "level", name: "Voice Level", min: 0, max: 1, default: 0.5 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a delay node for chorus effect
+    const delay = nodes.add(audioContext.createDelay())
+    delay.delayTime.value = params.delay / 1000
+
+    // Create a gain node for the delayed signal
+    const delayGain = nodes.add(audioContext.createGain())
+    delayGain.gain.value = params.level
+
+    // Create an oscillator for modulation
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.rate
+
+    // Create a gain for the oscillator
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.depth / 1000
+
+    // Connect the oscillator to the delay time
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(delay.delayTime)
+
+    // Start the oscillator
+    oscillator.start()
+
+    // Connect the source to both the output and the delay
+    input.connect(delay)
+    delay.connect(delayGain)
+
+    // Create a merger to combine the original and delayed signals
+    const merger = nodes.add(audioContext.createGain())
+    input.connect(merger)
+    delayGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "rate") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "depth") rampParam(oscillatorGain.gain, value / 1000, audioContext)
+        if (id === "delay") rampParam(delay.delayTime, value / 1000, audioContext)
+        if (id === "level") rampParam(delayGain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,51 @@
+import { Gauge } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const compressor: EffectDefinition = {
+  id: 14,
+  slug: "compressor",
+  name: "Compressor",
+  description: "Dynamic control",
+  category: "basic",
+  icon: Gauge,
+  params: [
+    { id: "threshold", name: "Threshold", min: -60, max: 0, default: -24, step: 1, unit: "dB" },
+    { id: "knee", name: "Knee", min: 0, max: 40, default: 30, step: 1, unit: "dB" },
+    { id: "ratio", name: "Ratio", min: 1, max: 20, default: 12, step: 0.5, unit: ":1" },
+    { id: "attack", name: "Attack", min: 0.001, max: 1, default: 0.003, unit: "s", curve: "log" },
+    { id: "release", name: "Release", min: 0.01, max: 1, default: 0.25, unit: "s", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a compressor node
+    const compressor = nodes.add(audioContext.createDynamicsCompressor())
+    compressor.threshold.value = params.threshold
+    compressor.knee.value = params.knee
+    compressor.ratio.value = params.ratio
+    compressor.attack.value = params.attack
+    compressor.release.value = params.release
+
+    // Connect the source to the compressor
+    input.connect(compressor)
+
+    return {
+      input,
+      output: compressor,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        const param = {
+          threshold: compressor.threshold,
+          knee: compressor.knee,
+          ratio: compressor.ratio,
+          attack: compressor.attack,
+          release: compressor.release,
+        }[id]
+        if (param) rampParam(param, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,74 @@
+import { Wand2 } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { feedbackTail, makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const customChain: EffectDefinition = {
+  id: 48,
+  slug: "custom-chain",
+  name: "Custom Chain",
+  description: "Create effect chain",
+  category: "experimental",
+  icon: Wand2,
+  params: [
+    { id: "drive", name: "Drive", min: 0, max: 200, default: 50, step: 1 },
+    { id: "time", name: "Delay Time", min: 0.05, max: 1, default: 0.3, unit: "s", curve: "log" },
+    { id: "feedback", name: "Feedback", min: 0, max: 0.9, default: 0.3 },
+  ],
+  // 2 second reverb, then the delay repeats
+  tail: (params) => 2 + feedbackTail(params.time, params.feedback),
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a predefined chain of effects
+    // Reverb -> Distortion -> Delay
+
+    // Reverb
+    const convolver = nodes.add(audioContext.createConvolver())
+    const sampleRate = audioContext.sampleRate
+    const length = sampleRate * 2
+    const impulse = audioContext.createBuffer(2, length, sampleRate)
+    const leftChannel = impulse.getChannelData(0)
+    const rightChannel = impulse.getChannelData(1)
+
+    for (let i = 0; i < length; i++) {
+      const decay = Math.pow(1 - i / length, 2)
+      leftChannel[i] = (Math.random() * 2 - 1) * decay
+      rightChannel[i] = (Math.random() * 2 - 1) * decay
+    }
+
+    convolver.buffer = impulse
+
+    // Distortion
+    const distortion = nodes.add(audioContext.createWaveShaper())
+    distortion.curve = makeDistortionCurve(params.drive)
+    distortion.oversample = "4x"
+
+    // Delay
+    const delay = nodes.add(audioContext.createDelay())
+    delay.delayTime.value = params.time
+
+    const feedback = nodes.add(audioContext.createGain())
+    feedback.gain.value = params.feedback
+
+    // Connect the chain
+    input.connect(convolver)
+    convolver.connect(distortion)
+    distortion.connect(delay)
+    delay.connect(feedback)
+    feedback.connect(delay)
+
+    return {
+      input,
+      output: delay,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+        if (id === "time") rampParam(delay.delayTime, value, audioContext)
+        if (id === "feedback") rampParam(feedback.gain, value, audioContext)
+      },
+    }
+  },
+}
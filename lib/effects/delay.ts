@@ -0,0 +1,47 @@
+import { Repeat } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { feedbackTail } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const delay: EffectDefinition = {
+  id: 15,
+  slug: "delay",
+  name: "Delay",
+  description: "Echo effect",
+  category: "basic",
+  icon: Repeat,
+  defaultMix: 0.4,
+  params: [
+    { id: "time", name: "Time", min: 0.05, max: 2, default: 0.3, unit: "s", curve: "log" },
+    { id: "feedback", name: "Feedback", min: 0, max: 0.95, default: 0.4 },
+  ],
+  tail: (params) => feedbackTail(params.time, params.feedback),
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a delay node
+    const delay = nodes.add(audioContext.createDelay(2))
+    delay.delayTime.value = params.time
+
+    // Create a feedback gain
+    const feedback = nodes.add(audioContext.createGain())
+    feedback.gain.value = params.feedback
+
+    // Connect the nodes
+    input.connect(delay)
+    delay.connect(feedback)
+    feedback.connect(delay)
+
+    return {
+      input,
+      output: delay,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "time") rampParam(delay.delayTime, value, audioContext)
+        if (id === "feedback") rampParam(feedback.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,32 @@
+import { Zap } from "lucide-react"
+import { makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const distortion: EffectDefinition = {
+  id: 6,
+  slug: "distortion",
+  name: "Distortion",
+  description: "Add grit and crunch",
+  category: "basic",
+  icon: Zap,
+  params: [{ id: "amount", name: "Drive", min: 0, max: 1000, default: 400, step: 1 }],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    const distortion = nodes.add(audioContext.createWaveShaper())
+
+    distortion.curve = makeDistortionCurve(params.amount)
+    distortion.oversample = "4x"
+    input.connect(distortion)
+    return {
+      input,
+      output: distortion,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "amount") distortion.curve = makeDistortionCurve(value)
+      },
+    }
+  },
+}
@@ -0,0 +1,96 @@
+import type { EffectParamValues } from "@/lib/audio/effect-params"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectInstance } from "./types"
+
+// Waveshaper curve shared by the distortion-style effects
+export function makeDistortionCurve(amount = 50) {
+  const k = amount
+  const n_samples = 44100
+  const curve = new Float32Array(n_samples)
+  const deg = Math.PI / 180
+
+  for (let i = 0; i < n_samples; ++i) {
+    const x = (i * 2) / n_samples - 1
+    curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x))
+  }
+  return curve
+}
+
+// Seconds until delay repeats at this feedback fade below -80 dB
+export function feedbackTail(time: number, feedback: number) {
+  return feedback > 0 ? (time * Math.log(1e-4)) / Math.log(feedback) : time
+}
+
+// Two seconds of looping stereo white noise, already started
+export function createNoiseSource(audioContext: BaseAudioContext) {
+  const noiseBuffer = audioContext.createBuffer(2, audioContext.sampleRate * 2, audioContext.sampleRate)
+
+  for (let channel = 0; channel < noiseBuffer.numberOfChannels; channel++) {
+    const data = noiseBuffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1
+    }
+  }
+
+  const noise = audioContext.createBufferSource()
+  noise.buffer = noiseBuffer
+  noise.loop = true
+  noise.start()
+
+  return noise
+}
+
+export const KEY_OPTIONS = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
+// Same order as the scales in autotune-processor.js
+export const SCALE_OPTIONS = [
+  "Chromatic",
+  "Major",
+  "Minor",
+  "Harmonic Minor",
+  "Dorian",
+  "Mixolydian",
+  "Major Pentatonic",
+  "Minor Pentatonic",
+  "Blues",
+]
+
+// Pitch correction engine shared by the auto-tune effects. Without worklets the signal passes
+// through untouched, there's no usable fallback for pitch tracking on the main thread.
+export function createPitchCorrector(audioContext: BaseAudioContext, params: EffectParamValues): EffectInstance {
+  const nodes = createNodeGroup()
+  const input = nodes.add(audioContext.createGain())
+  if (!hasAudioWorklets(audioContext)) return { input, output: input, dispose: nodes.dispose }
+
+  const { node, setParam } = createWorkletNode(audioContext, "autotune-processor", params)
+  nodes.add(node)
+  input.connect(node)
+
+  return {
+    input,
+    output: node,
+    dispose: nodes.dispose,
+    setParam: (id, value) => {
+      // Gliding between keys or scales would pass through the ones in between
+      if (id === "key" || id === "scale") node.parameters.get(id)?.setValueAtTime(value, audioContext.currentTime)
+      else setParam(id, value)
+    },
+  }
+}
+
+// Samples the pitch shift worklet's output lags its input, one analysis frame less a hop
+const PITCH_SHIFT_LATENCY = 1536
+
+// Phase vocoder pitch shift that keeps the timing, shared by the pitch effects. Without worklets the
+// signal passes through unshifted.
+export function createPitchShifter(audioContext: BaseAudioContext, params: EffectParamValues): EffectInstance {
+  const nodes = createNodeGroup()
+  const input = nodes.add(audioContext.createGain())
+  if (!hasAudioWorklets(audioContext)) return { input, output: input, dispose: nodes.dispose }
+
+  const { node, setParam } = createWorkletNode(audioContext, "pitch-shift-processor", params)
+  nodes.add(node)
+  input.connect(node)
+  const latency = PITCH_SHIFT_LATENCY / audioContext.sampleRate
+  return { input, output: node, dispose: nodes.dispose, setParam, latency }
+}
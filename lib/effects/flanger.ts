@@ -0,0 +1,63 @@
+import { Waves } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const flanger: EffectDefinition = {
+  id: 50,
+  slug: "flanger",
+  name: "Flanger",
+  description: "Swirling effect",
+  category: "basic",
+  icon: Waves,
+  defaultMix: 0.5,
+  params: [
+    { id: "rate", name: "Rate", min: 0.05, max: 2, default: 0.2, unit: "Hz", curve: "log" },
+    { id: "depth", name: "Depth", min: 0, max: 5, default: 3, unit: "ms" },
+    { id: "feedback", name: "Feedback", min: 0, max: 0.9, default: 0.5 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a flanger effect
+    const delay = nodes.add(audioContext.createDelay())
+    delay.delayTime.value = 0.005 // 5ms initial delay
+
+    // Create an oscillator for modulation
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.rate
+
+    // Create a gain for the oscillator
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.depth / 1000 // Modulation depth
+
+    // Connect the oscillator to the delay time
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(delay.delayTime)
+
+    // Start the oscillator
+    oscillator.start()
+
+    // Create a feedback loop
+    const feedback = nodes.add(audioContext.createGain())
+    feedback.gain.value = params.feedback
+
+    // Connect everything
+    input.connect(delay)
+    delay.connect(feedback)
+    feedback.connect(delay)
+
+    return {
+      input,
+      output: delay,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "rate") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "depth") rampParam(oscillatorGain.gain, value / 1000, audioContext)
+        if (id === "feedback") rampParam(feedback.gain, value, audioContext)
+      },
+    }
+  },
+}
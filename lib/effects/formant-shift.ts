@@ -0,0 +1,53 @@
+import { Music } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const formantShift: EffectDefinition = {
+  id: 41,
+  slug: "formant-shift",
+  name: "Formant Shift",
+  description: "Alter vocal formants",
+  category: "vocal",
+  icon: Music,
+  params: [
+    { id: "shift", name: "Shift", min: 0.5, max: 2, default: 1, unit: "x", curve: "log" },
+    { id: "intensity", name: "Intensity", min: 0, max: 2, default: 1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a formant shift effect
+    const formants = [
+      { frequency: 700, gain: 10 }, // First formant
+      { frequency: 1200, gain: -5 }, // Second formant
+      { frequency: 2500, gain: 8 }, // Third formant
+    ]
+
+    const filters = formants.map((formant) => {
+      const filter = nodes.add(audioContext.createBiquadFilter())
+      filter.type = "peaking"
+      filter.frequency.value = formant.frequency * params.shift
+      filter.Q.value = 5
+      filter.gain.value = formant.gain * params.intensity
+      return filter
+    })
+
+    input.connect(filters[0])
+    filters[0].connect(filters[1])
+    filters[1].connect(filters[2])
+
+    return {
+      input,
+      output: filters[2],
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        filters.forEach((filter, index) => {
+          if (id === "shift") rampParam(filter.frequency, formants[index].frequency * value, audioContext)
+          if (id === "intensity") rampParam(filter.gain, formants[index].gain * value, audioContext)
+        })
+      },
+    }
+  },
+}
@@ -0,0 +1,103 @@
+import { Zap } from "lucide-react"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const glitch: EffectDefinition = {
+  id: 38,
+  slug: "glitch",
+  name: "Glitch",
+  description: "Digital artifacts",
+  category: "experimental",
+  icon: Zap,
+  params: [
+    { id: "probability", name: "Frequency", min: 0, max: 0.5, default: 0.05 },
+    { id: "intensity", name: "Intensity", min: 0, max: 1, default: 0.2 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Worklets run off the main thread; the script processor below is only a fallback
+    if (hasAudioWorklets(audioContext)) {
+      const { node, setParam } = createWorkletNode(audioContext, "glitch-processor", params)
+      nodes.add(node)
+      input.connect(node)
+      return { input, output: node, dispose: nodes.dispose, setParam }
+    }
+
+    // Create a glitch effect
+    const bufferSize = 4096
+    const scriptProcessor = nodes.add(audioContext.createScriptProcessor(bufferSize, 1, 1))
+
+    const buffer = new Float32Array(bufferSize)
+    let glitchActive = false
+    let glitchCounter = 0
+    let probability = params.probability
+    let intensity = params.intensity
+
+    scriptProcessor.onaudioprocess = (event) => {
+      const inputBuffer = event.inputBuffer
+      const outputBuffer = event.outputBuffer
+
+      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
+        const inputData = inputBuffer.getChannelData(channel)
+        const outputData = outputBuffer.getChannelData(channel)
+
+        // Randomly activate glitch
+        if (Math.random() < probability) {
+          glitchActive = true
+          glitchCounter = Math.floor(Math.random() * 10) + 1
+        }
+
+        if (glitchActive) {
+          // Copy input to buffer
+          for (let i = 0; i < inputData.length; i++) {
+            buffer[i] = inputData[i]
+          }
+
+          // Apply glitch effects
+          for (let i = 0; i < outputData.length; i++) {
+            // Random sample repeats
+            if (Math.random() < intensity) {
+              const repeatLength = Math.floor(Math.random() * 20) + 1
+              const repeatStart = Math.floor(Math.random() * (buffer.length - repeatLength))
+
+              for (let j = 0; j < repeatLength; j++) {
+                if (i + j < outputData.length) {
+                  outputData[i + j] = buffer[repeatStart + j]
+                }
+              }
+
+              i += repeatLength - 1
+            } else {
+              outputData[i] = buffer[i]
+            }
+          }
+
+          glitchCounter--
+          if (glitchCounter <= 0) {
+            glitchActive = false
+          }
+        } else {
+          // Normal processing
+          for (let i = 0; i < outputData.length; i++) {
+            outputData[i] = inputData[i]
+          }
+        }
+      }
+    }
+
+    input.connect(scriptProcessor)
+
+    return {
+      input,
+      output: scriptProcessor,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "probability") probability = value
+        if (id === "intensity") intensity = value
+      },
+    }
+  },
+}
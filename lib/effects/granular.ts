@@ -0,0 +1,101 @@
+import { Sparkles } from "lucide-react"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const granular: EffectDefinition = {
+  id: 36,
+  slug: "granular",
+  name: "Granular",
+  description: "Grain synthesis",
+  category: "experimental",
+  icon: Sparkles,
+  params: [
+    { id: "grainSize", name: "Grain Size", min: 20, max: 500, default: 100, unit: "ms", curve: "log" },
+    { id: "jitter", name: "Jitter", min: 0, max: 0.5, default: 0.1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Worklets run off the main thread; the script processor below is only a fallback
+    if (hasAudioWorklets(audioContext)) {
+      const { node, setParam } = createWorkletNode(audioContext, "granular-processor", params)
+      nodes.add(node)
+      input.connect(node)
+      return { input, output: node, dispose: nodes.dispose, setParam }
+    }
+
+    // Create a simple granular effect
+    const bufferSize = 4096
+    const scriptProcessor = nodes.add(audioContext.createScriptProcessor(bufferSize, 1, 1))
+
+    let grainPointer = 0
+    let grainBuffer = new Float32Array(Math.floor((audioContext.sampleRate * params.grainSize) / 1000))
+    let jitter = params.jitter
+    let isRecording = true
+    let recordingPointer = 0
+
+    scriptProcessor.onaudioprocess = (event) => {
+      const inputBuffer = event.inputBuffer
+      const outputBuffer = event.outputBuffer
+
+      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
+        const inputData = inputBuffer.getChannelData(channel)
+        const outputData = outputBuffer.getChannelData(channel)
+
+        for (let i = 0; i < inputData.length; i++) {
+          // Record into grain buffer
+          if (isRecording) {
+            grainBuffer[recordingPointer] = inputData[i]
+            recordingPointer++
+
+            if (recordingPointer >= grainBuffer.length) {
+              isRecording = false
+              recordingPointer = 0
+              grainPointer = 0
+            }
+          }
+
+          // Play from grain buffer
+          if (!isRecording) {
+            outputData[i] = grainBuffer[grainPointer]
+            grainPointer++
+
+            if (grainPointer >= grainBuffer.length) {
+              grainPointer = 0
+
+              // Add random offset for granular effect
+              const randomOffset = Math.floor(Math.random() * grainBuffer.length * jitter)
+              grainPointer = randomOffset
+
+              // Occasionally switch back to recording
+              if (Math.random() < 0.1) {
+                isRecording = true
+              }
+            }
+          } else {
+            outputData[i] = inputData[i]
+          }
+        }
+      }
+    }
+
+    input.connect(scriptProcessor)
+
+    return {
+      input,
+      output: scriptProcessor,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "grainSize") {
+          grainBuffer = new Float32Array(Math.floor((audioContext.sampleRate * value) / 1000))
+          isRecording = true
+          recordingPointer = 0
+          grainPointer = 0
+        }
+        if (id === "jitter") jitter = value
+      },
+    }
+  },
+}
@@ -0,0 +1,87 @@
+import { createSlotNode, type ResolvedSlot, type SlotNode } from "./chain"
+
+const SOURCE = "source"
+const DESTINATION = "destination"
+
+export type ChainGraph = {
+  // Brings the graph in line with the given chain, touching only what changed
+  sync: (slots: ResolvedSlot[]) => void
+  getSlotNode: (slotId: string) => SlotNode | undefined
+  // Seconds the destination lags the source through the current slots
+  getLatency: () => number
+  // Gives the engine's playback rate to the slot that set it and 1 to the rest, so the pitch
+  // change is undone at most once
+  setPlaybackRate: (rate: number, rateSlotId: string | null) => void
+  dispose: () => void
+}
+
+// Keeps a live chain of slot nodes between a fixed source and destination. Slots that stay in the
+// chain keep their instances, so impulse responses, random choices and buffered audio survive
+// edits to the rest of the chain.
+export function createChainGraph(
+  audioContext: BaseAudioContext,
+  source: AudioNode,
+  destination: AudioNode,
+): ChainGraph {
+  const slotNodes = new Map<string, SlotNode>()
+  let links = new Set<string>()
+
+  const nodeFor = (id: string, end: "input" | "output") => {
+    if (id === SOURCE) return source
+    if (id === DESTINATION) return destination
+    return slotNodes.get(id)![end]
+  }
+
+  const linkKey = (from: string, to: string) => `${from}>${to}`
+
+  const sync = (slots: ResolvedSlot[]) => {
+    const nextIds = slots.map((slot) => slot.slotId)
+
+    // Links are rebuilt from the new order and compared with the current ones
+    const path = [SOURCE, ...nextIds, DESTINATION]
+    const nextLinks = new Set(path.slice(1).map((to, index) => linkKey(path[index], to)))
+
+    // Disconnect links that no longer exist while their endpoints are still around
+    links.forEach((link) => {
+      if (nextLinks.has(link)) return
+      const [from, to] = link.split(">")
+      nodeFor(from, "output").disconnect(nodeFor(to, "input"))
+    })
+
+    // Release slots that left the chain
+    slotNodes.forEach((slotNode, slotId) => {
+      if (nextIds.includes(slotId)) return
+      slotNode.dispose()
+      slotNodes.delete(slotId)
+    })
+
+    // Create slots that joined the chain
+    slots.forEach((slot) => {
+      if (!slotNodes.has(slot.slotId)) {
+        slotNodes.set(slot.slotId, createSlotNode(audioContext, slot.effect, slot))
+      }
+    })
+
+    nextLinks.forEach((link) => {
+      if (links.has(link)) return
+      const [from, to] = link.split(">")
+      nodeFor(from, "output").connect(nodeFor(to, "input"))
+    })
+
+    links = nextLinks
+  }
+
+  return {
+    sync,
+    getSlotNode: (slotId) => slotNodes.get(slotId),
+    getLatency: () => [...slotNodes.values()].reduce((total, slotNode) => total + slotNode.latency, 0),
+    setPlaybackRate: (rate, rateSlotId) => {
+      slotNodes.forEach((slotNode, slotId) => slotNode.instance.setPlaybackRate?.(slotId === rateSlotId ? rate : 1))
+    },
+    dispose: () => {
+      sync([])
+      source.disconnect(destination)
+      links.clear()
+    },
+  }
+}
@@ -0,0 +1,66 @@
+import { Music } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const harmonizer: EffectDefinition = {
+  id: 23,
+  slug: "harmonizer",
+  name: "Harmonizer",
+  description: "Add harmonies",
+  category: "vocal",
+  icon: Music,
+  params: [
+    { id: "level", name: "Harmony Level", min: 0, max: 1, default: 0.5 },
+    { id: "spread", name: "Spread", min: 5, max: 50, default: 10, unit: "ms" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a simple harmonizer effect
+    const pitchUp = nodes.add(audioContext.createGain())
+    const pitchDown = nodes.add(audioContext.createGain())
+
+    // Create a delay for each harmony
+    const delayUp = nodes.add(audioContext.createDelay())
+    delayUp.delayTime.value = params.spread / 1000
+
+    const delayDown = nodes.add(audioContext.createDelay())
+    delayDown.delayTime.value = (params.spread * 2) / 1000
+
+    // Set gains for the harmonies
+    pitchUp.gain.value = params.level
+    pitchDown.gain.value = params.level
+
+    // Connect the source to the delays
+    input.connect(delayUp)
+    input.connect(delayDown)
+
+    // Connect the delays to the gains
+    delayUp.connect(pitchUp)
+    delayDown.connect(pitchDown)
+
+    // Create a merger to combine the original and harmonies
+    const merger = nodes.add(audioContext.createGain())
+    input.connect(merger)
+    pitchUp.connect(merger)
+    pitchDown.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "level") {
+          rampParam(pitchUp.gain, value, audioContext)
+          rampParam(pitchDown.gain, value, audioContext)
+        }
+        if (id === "spread") {
+          rampParam(delayUp.delayTime, value / 1000, audioContext)
+          rampParam(delayDown.delayTime, (value * 2) / 1000, audioContext)
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,61 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const hrtf: EffectDefinition = {
+  id: 32,
+  slug: "hrtf",
+  name: "HRTF",
+  description: "Head-related transfer function",
+  category: "spatial",
+  icon: Headphones,
+  params: [
+    { id: "speed", name: "Speed", min: 0.01, max: 1, default: 0.1, unit: "Hz", curve: "log" },
+    { id: "distance", name: "Distance", min: 0.5, max: 10, default: 2, unit: "m" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a simple HRTF-like effect
+    const panner = nodes.add(audioContext.createPanner())
+    panner.panningModel = "HRTF"
+    panner.distanceModel = "inverse"
+    panner.refDistance = 1
+    panner.maxDistance = 10000
+    panner.rolloffFactor = 1
+    panner.coneInnerAngle = 360
+    panner.coneOuterAngle = 360
+    panner.coneOuterGain = 0
+
+    // Position the panner in 3D space
+    panner.positionX.value = 0
+    panner.positionY.value = 0
+    panner.positionZ.value = -1
+
+    // Create an oscillator to move the sound source
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.frequency.value = params.speed
+
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.distance
+
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(panner.positionX)
+
+    oscillator.start()
+
+    input.connect(panner)
+
+    return {
+      input,
+      output: panner,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "speed") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "distance") rampParam(oscillatorGain.gain, value, audioContext)
+      },
+    }
+  },
+}
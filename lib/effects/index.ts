@@ -0,0 +1,139 @@
+import type { EffectCategory, EffectDefinition } from "./types"
+import { eightDAudio } from "./8d-audio"
+import { amRadio } from "./am-radio"
+import { ambisonic } from "./ambisonic"
+import { autoTune } from "./auto-tune"
+import { autotuneExtreme } from "./autotune-extreme"
+import { bassBoost } from "./bass-boost"
+import { binauralBeat } from "./binaural-beat"
+import { bitcrusher } from "./bitcrusher"
+import { bluetoothQuality } from "./bluetooth-quality"
+import { cassette } from "./cassette"
+import { cathedral } from "./cathedral"
+import { chipmunk } from "./chipmunk"
+import { chorus } from "./chorus"
+import { compressor } from "./compressor"
+import { customChain } from "./custom-chain"
+import { delay } from "./delay"
+import { distortion } from "./distortion"
+import { flanger } from "./flanger"
+import { formantShift } from "./formant-shift"
+import { glitch } from "./glitch"
+import { granular } from "./granular"
+import { harmonizer } from "./harmonizer"
+import { hrtf } from "./hrtf"
+import { loFi } from "./lo-fi"
+import { megaphone } from "./megaphone"
+import { monoToStereo } from "./mono-to-stereo"
+import { monsterVoice } from "./monster-voice"
+import { nightcore } from "./nightcore"
+import { phoneCall } from "./phone-call"
+import { pitchShiftDown } from "./pitch-shift-down"
+import { pitchShiftUp } from "./pitch-shift-up"
+import { pitchStretch } from "./pitch-stretch"
+import { randomFx } from "./random-fx"
+import { reverb } from "./reverb"
+import { stadiumEcho } from "./stadium-echo"
+import { stereoWidener } from "./stereo-widener"
+import { stutter } from "./stutter"
+import { tapeSaturation } from "./tape-saturation"
+import { telephone } from "./telephone"
+import { timeStretch } from "./time-stretch"
+import { tremolo } from "./tremolo"
+import { underwater } from "./underwater"
+import { vaporwave } from "./vaporwave"
+import { vhsAudio } from "./vhs-audio"
+import { vibrato } from "./vibrato"
+import { vinyl } from "./vinyl"
+import { vocoder } from "./vocoder"
+import { voiceChanger } from "./voice-changer"
+import { whisper } from "./whisper"
+
+export type { EffectCategory, EffectDefinition, EffectInstance } from "./types"
+export { cloneSlot, createSlot, type EffectSlot, type ResolvedSlot, type SlotNode } from "./chain"
+export { createChainGraph, type ChainGraph } from "./graph"
+export { getLiveNodeCount } from "./nodes"
+export { getVocoderCarrier, setVocoderCarrier, subscribeVocoderCarrier, type VocoderCarrier } from "./carrier"
+export { VOCODER_FILE_CARRIER, vocoder } from "./vocoder"
+export { describeDroppedEffects } from "./retired"
+export {
+  clampRegionFades,
+  createRegion,
+  createRegionGraph,
+  freeRangeAround,
+  MIN_REGION_LENGTH,
+  remapRegions,
+  type EffectRegion,
+  type RegionGraph,
+  type ResolvedRegion,
+} from "./regions"
+
+// Every effect, in the order they appear in the library. Adding an effect means
+// creating its file and listing it here.
+export const effectRegistry: EffectDefinition[] = [
+  bassBoost,
+  eightDAudio,
+  reverb,
+  nightcore,
+  vaporwave,
+  distortion,
+  telephone,
+  loFi,
+  pitchShiftUp,
+  pitchShiftDown,
+  chorus,
+  tremolo,
+  vibrato,
+  compressor,
+  delay,
+  stereoWidener,
+  vinyl,
+  amRadio,
+  bitcrusher,
+  underwater,
+  autoTune,
+  vocoder,
+  harmonizer,
+  voiceChanger,
+  whisper,
+  megaphone,
+  chipmunk,
+  monsterVoice,
+  monoToStereo,
+  binauralBeat,
+  ambisonic,
+  hrtf,
+  tapeSaturation,
+  cassette,
+  vhsAudio,
+  granular,
+  glitch,
+  stutter,
+  timeStretch,
+  formantShift,
+  autotuneExtreme,
+  bluetoothQuality,
+  phoneCall,
+  stadiumEcho,
+  cathedral,
+  randomFx,
+  customChain,
+  pitchStretch,
+  flanger,
+]
+
+export const EFFECT_CATEGORIES: { value: EffectCategory; label: string }[] = [
+  { value: "basic", label: "Basic" },
+  { value: "vocal", label: "Vocal" },
+  { value: "spatial", label: "Spatial" },
+  { value: "retro", label: "Retro" },
+  { value: "experimental", label: "Experimental" },
+]
+
+export function getEffect(id: number) {
+  return effectRegistry.find((effect) => effect.id === id)
+}
+
+export function getEffectBySlug(slug: string) {
+  return effectRegistry.find((effect) => effect.slug === slug)
+}
@@ -0,0 +1,44 @@
+import { Radio } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const loFi: EffectDefinition = {
+  id: 8,
+  slug: "lo-fi",
+  name: "Lo-Fi",
+  description: "Vintage quality",
+  category: "basic",
+  icon: Radio,
+  params: [
+    { id: "cutoff", name: "Tone", min: 1000, max: 8000, default: 3500, unit: "Hz", curve: "log" },
+    { id: "drive", name: "Drive", min: 0, max: 200, default: 50, step: 1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a bitcrusher-like effect for lo-fi
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.cutoff
+
+    // Add some distortion
+    const distortion = nodes.add(audioContext.createWaveShaper())
+    distortion.curve = makeDistortionCurve(params.drive)
+    distortion.oversample = "4x"
+
+    input.connect(lowPass)
+    lowPass.connect(distortion)
+    return {
+      input,
+      output: distortion,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "cutoff") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+      },
+    }
+  },
+}
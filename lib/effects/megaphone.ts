@@ -0,0 +1,50 @@
+import { Megaphone } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const megaphone: EffectDefinition = {
+  id: 26,
+  slug: "megaphone",
+  name: "Megaphone",
+  description: "Loud announcement effect",
+  category: "vocal",
+  icon: Megaphone,
+  params: [
+    { id: "center", name: "Center", min: 800, max: 4000, default: 1800, unit: "Hz", curve: "log" },
+    { id: "drive", name: "Drive", min: 0, max: 200, default: 50, step: 1 },
+    { id: "level", name: "Level", min: 0.5, max: 3, default: 1.5 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a megaphone effect
+    const bandpass = nodes.add(audioContext.createBiquadFilter())
+    bandpass.type = "bandpass"
+    bandpass.frequency.value = params.center
+    bandpass.Q.value = 0.7
+
+    const distortion = nodes.add(audioContext.createWaveShaper())
+    distortion.curve = makeDistortionCurve(params.drive)
+
+    const gain = nodes.add(audioContext.createGain())
+    gain.gain.value = params.level
+
+    input.connect(bandpass)
+    bandpass.connect(distortion)
+    distortion.connect(gain)
+
+    return {
+      input,
+      output: gain,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "center") rampParam(bandpass.frequency, value, audioContext)
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+        if (id === "level") rampParam(gain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,62 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const monoToStereo: EffectDefinition = {
+  id: 29,
+  slug: "mono-to-stereo",
+  name: "Mono to Stereo",
+  description: "Convert mono to stereo",
+  category: "spatial",
+  icon: Headphones,
+  params: [{ id: "spread", name: "Spread", min: 0, max: 1, default: 0.8 }],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a mono to stereo effect
+    const leftDelay = nodes.add(audioContext.createDelay())
+    leftDelay.delayTime.value = 0.01
+
+    const rightDelay = nodes.add(audioContext.createDelay())
+    rightDelay.delayTime.value = 0.02
+
+    const leftGain = nodes.add(audioContext.createGain())
+    leftGain.gain.value = 0.8
+
+    const rightGain = nodes.add(audioContext.createGain())
+    rightGain.gain.value = 0.8
+
+    const leftPanner = nodes.add(audioContext.createStereoPanner())
+    leftPanner.pan.value = -params.spread
+
+    const rightPanner = nodes.add(audioContext.createStereoPanner())
+    rightPanner.pan.value = params.spread
+
+    input.connect(leftDelay)
+    input.connect(rightDelay)
+
+    leftDelay.connect(leftGain)
+    rightDelay.connect(rightGain)
+
+    leftGain.connect(leftPanner)
+    rightGain.connect(rightPanner)
+
+    const merger = nodes.add(audioContext.createGain())
+    leftPanner.connect(merger)
+    rightPanner.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "spread") {
+          rampParam(leftPanner.pan, -value, audioContext)
+          rampParam(rightPanner.pan, value, audioContext)
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,45 @@
+import { Mic } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { makeDistortionCurve } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const monsterVoice: EffectDefinition = {
+  id: 28,
+  slug: "monster-voice",
+  name: "Monster Voice",
+  description: "Deep scary voice",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "rate", name: "Speed", min: 0.5, max: 0.95, default: 0.7, step: 0.01, unit: "x" },
+    { id: "cutoff", name: "Darkness", min: 100, max: 1000, default: 300, unit: "Hz", curve: "log" },
+    { id: "drive", name: "Growl", min: 0, max: 300, default: 100, step: 1 },
+  ],
+  playbackRate: (params) => params.rate,
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a monster voice effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.cutoff
+
+    const distortion = nodes.add(audioContext.createWaveShaper())
+    distortion.curve = makeDistortionCurve(params.drive)
+
+    input.connect(lowPass)
+    lowPass.connect(distortion)
+
+    return {
+      input,
+      output: distortion,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "cutoff") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+      },
+    }
+  },
+}
@@ -0,0 +1,22 @@
+import { Zap } from "lucide-react"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const nightcore: EffectDefinition = {
+  id: 4,
+  slug: "nightcore",
+  name: "Nightcore",
+  description: "Speed up and pitch shift",
+  category: "basic",
+  icon: Zap,
+  params: [{ id: "rate", name: "Speed", min: 1.05, max: 1.6, default: 1.3, step: 0.01, unit: "x" }],
+  playbackRate: (params) => params.rate,
+  create: (audioContext) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // For nightcore, we need to adjust playback rate
+    // This is applied to the source by the engine
+    return { input, output: input, dispose: nodes.dispose }
+  },
+}
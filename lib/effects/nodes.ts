@@ -0,0 +1,45 @@
+// Running total of effect nodes that have been created and not yet disposed, for the debug readout
+let liveNodeCount = 0
+
+export function getLiveNodeCount() {
+  return liveNodeCount
+}
+
+export type NodeGroup = {
+  add: <T extends AudioNode>(node: T) => T
+  // Releases one node early, for effects that swap a node while they run
+  remove: (node: AudioNode) => void
+  dispose: () => void
+}
+
+function releaseNode(node: AudioNode) {
+  // Oscillators and noise loops otherwise keep running after being disconnected
+  if (node instanceof AudioScheduledSourceNode) node.stop()
+  if (node instanceof ScriptProcessorNode) node.onaudioprocess = null
+  node.disconnect()
+}
+
+// Collects the nodes an effect creates so they can be stopped and released together
+export function createNodeGroup(): NodeGroup {
+  const nodes: AudioNode[] = []
+
+  return {
+    add: (node) => {
+      nodes.push(node)
+      liveNodeCount++
+      return node
+    },
+    remove: (node) => {
+      const index = nodes.indexOf(node)
+      if (index < 0) return
+      nodes.splice(index, 1)
+      releaseNode(node)
+      liveNodeCount--
+    },
+    dispose: () => {
+      nodes.forEach(releaseNode)
+      liveNodeCount -= nodes.length
+      nodes.length = 0
+    },
+  }
+}
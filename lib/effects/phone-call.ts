@@ -0,0 +1,65 @@
+import { Smartphone } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNoiseSource } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const phoneCall: EffectDefinition = {
+  id: 44,
+  slug: "phone-call",
+  name: "Phone Call",
+  description: "Mobile call quality",
+  category: "retro",
+  icon: Smartphone,
+  params: [
+    { id: "threshold", name: "Squash", min: -40, max: 0, default: -15, step: 1, unit: "dB" },
+    { id: "noise", name: "Line Noise", min: 0, max: 0.05, default: 0.01 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a phone call effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = 3000
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = 300
+
+    // Add compression
+    const compressor = nodes.add(audioContext.createDynamicsCompressor())
+    compressor.threshold.value = params.threshold
+    compressor.knee.value = 5
+    compressor.ratio.value = 12
+    compressor.attack.value = 0
+    compressor.release.value = 0.25
+
+    // Add noise
+    const noiseGain = nodes.add(audioContext.createGain())
+    noiseGain.gain.value = params.noise
+
+    const noise = nodes.add(createNoiseSource(audioContext))
+
+    noise.connect(noiseGain)
+
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    lowPass.connect(compressor)
+
+    const merger = nodes.add(audioContext.createGain())
+    compressor.connect(merger)
+    noiseGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "threshold") rampParam(compressor.threshold, value, audioContext)
+        if (id === "noise") rampParam(noiseGain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,17 @@
+import { Music } from "lucide-react"
+import { createPitchShifter } from "./dsp"
+import type { EffectDefinition } from "./types"
+
+export const pitchShiftDown: EffectDefinition = {
+  id: 10,
+  slug: "pitch-shift-down",
+  name: "Pitch Shift Down",
+  description: "Lower the pitch, keep the tempo",
+  category: "basic",
+  icon: Music,
+  params: [
+    { id: "semitones", name: "Semitones", min: -24, max: 0, default: -3, step: 1, unit: "st" },
+    { id: "cents", name: "Fine Tune", min: -100, max: 100, default: 0, step: 1, unit: "cents" },
+  ],
+  create: createPitchShifter,
+}
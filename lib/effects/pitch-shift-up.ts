@@ -0,0 +1,17 @@
+import { Music } from "lucide-react"
+import { createPitchShifter } from "./dsp"
+import type { EffectDefinition } from "./types"
+
+export const pitchShiftUp: EffectDefinition = {
+  id: 9,
+  slug: "pitch-shift-up",
+  name: "Pitch Shift Up",
+  description: "Raise the pitch, keep the tempo",
+  category: "basic",
+  icon: Music,
+  params: [
+    { id: "semitones", name: "Semitones", min: 0, max: 24, default: 3, step: 1, unit: "st" },
+    { id: "cents", name: "Fine Tune", min: -100, max: 100, default: 0, step: 1, unit: "cents" },
+  ],
+  create: createPitchShifter,
+}
@@ -0,0 +1,76 @@
+import { Shuffle } from "lucide-react"
+import { getDefaultParams } from "@/lib/audio/effect-params"
+import { createRandom } from "@/lib/random"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition, EffectInstance } from "./types"
+// Only read when the effect is created, so the circular import resolves by then
+import { effectRegistry } from "."
+
+const PICK_COUNT = 3
+
+// The picks come from the seed rather than Math.random, so an export rebuilds the effects that were previewed.
+// Speed effects are left out, they need the engine to change the playback rate and a pick can't do that.
+function pickEffects(seed: number) {
+  const random = createRandom(seed)
+  const candidates = effectRegistry.filter((effect) => effect !== randomFx && !effect.playbackRate)
+
+  // Shuffle and take the first few
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[candidates[i], candidates[j]] = [candidates[j], candidates[i]]
+  }
+  return candidates.slice(0, PICK_COUNT)
+}
+
+export const randomFx: EffectDefinition = {
+  id: 47,
+  slug: "random-fx",
+  name: "Random FX",
+  description: "Apply random effects",
+  category: "experimental",
+  icon: Shuffle,
+  params: [{ id: "seed", name: "Seed", min: 0, max: 9999, default: 0, step: 1, random: true }],
+  // The picks ring on one after another
+  tail: (params) =>
+    pickEffects(params.seed).reduce(
+      (total, effect) => total + (effect.tail ? effect.tail(getDefaultParams(effect.params)) : 0),
+      0,
+    ),
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+    const output = nodes.add(audioContext.createGain())
+
+    let seed = params.seed
+    let instances: EffectInstance[] = []
+    const build = () => {
+      instances.forEach((instance) => instance.dispose())
+      input.disconnect()
+
+      // Apply the picked effects in sequence with their default settings
+      let currentNode: AudioNode = input
+      instances = pickEffects(seed).map((effect) => {
+        const instance = effect.create(audioContext, getDefaultParams(effect.params))
+        currentNode.connect(instance.input)
+        currentNode = instance.output
+        return instance
+      })
+      currentNode.connect(output)
+    }
+    build()
+
+    return {
+      input,
+      output,
+      dispose: () => {
+        instances.forEach((instance) => instance.dispose())
+        nodes.dispose()
+      },
+      setParam: (id, value) => {
+        if (id !== "seed" || value === seed) return
+        seed = value
+        build()
+      },
+    }
+  },
+}
@@ -0,0 +1,167 @@
+import { createChainGraph, type ChainGraph } from "./graph"
+import type { EffectSlot, ResolvedSlot, SlotNode } from "./chain"
+
+// A stretch of the track with its own chain, applied on top of the whole-track chain.
+// Times are in seconds of the original file.
+export type EffectRegion = {
+  regionId: string
+  start: number
+  end: number
+  fadeIn: number
+  fadeOut: number
+  chain: EffectSlot[]
+}
+
+export type ResolvedRegion = EffectRegion & { slots: ResolvedSlot[] }
+
+export type RegionGraph = {
+  sync: (regions: ResolvedRegion[]) => void
+  // Automates the region gains from a position in the file, following it at the given rate
+  schedule: (mediaTime: number, rate: number, playing: boolean) => void
+  getSlotNode: ChainGraph["getSlotNode"]
+  dispose: () => void
+}
+
+export const MIN_REGION_LENGTH = 0.1
+const DEFAULT_FADE = 0.05
+// Shortest ramp used at a boundary, a fade of zero would otherwise click
+const MIN_FADE = 0.002
+
+function createRegionId() {
+  return `region-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createRegion(start: number, end: number): EffectRegion {
+  const fade = Math.min(DEFAULT_FADE, (end - start) / 2)
+  return { regionId: createRegionId(), start, end, fadeIn: fade, fadeOut: fade, chain: [] }
+}
+
+// Fades can't outlast the region, and together they can't overlap
+export function clampRegionFades(region: EffectRegion): EffectRegion {
+  const length = region.end - region.start
+  const fadeIn = Math.min(Math.max(0, region.fadeIn), length)
+  const fadeOut = Math.min(Math.max(0, region.fadeOut), length - fadeIn)
+  return { ...region, fadeIn, fadeOut }
+}
+
+// The widest free stretch around an anchor time that a new or resized region may cover
+export function freeRangeAround(regions: EffectRegion[], anchor: number, duration: number, ignoreId?: string) {
+  let from = 0
+  let to = duration
+  regions.forEach((region) => {
+    if (region.regionId === ignoreId) return
+    if (region.end <= anchor) from = Math.max(from, region.end)
+    if (region.start >= anchor) to = Math.min(to, region.start)
+  })
+  return [from, to] as const
+}
+
+// Times where the region's envelope changes slope
+function regionCorners(region: EffectRegion) {
+  const fadeIn = Math.max(MIN_FADE, region.fadeIn)
+  const fadeOut = Math.max(MIN_FADE, region.fadeOut)
+  return [region.start, region.start + fadeIn, region.end - fadeOut, region.end]
+}
+
+// Moves regions along with an edit of the file. Regions whose boundaries were cut away are dropped.
+export function remapRegions(regions: EffectRegion[], mapTime: (time: number) => number | null) {
+  return regions.flatMap((region) => {
+    const start = mapTime(region.start)
+    const end = mapTime(region.end)
+    if (start === null || end === null || Math.abs(end - start) < MIN_REGION_LENGTH) return []
+    if (end >= start) return [clampRegionFades({ ...region, start, end })]
+    // Reversed audio mirrors the region, its fades trade places with it
+    return [clampRegionFades({ ...region, start: end, end: start, fadeIn: region.fadeOut, fadeOut: region.fadeIn })]
+  })
+}
+
+// Share of the region chain in the output at a time, ramping through the fades
+export function regionLevel(region: EffectRegion, time: number) {
+  const [start, fullFrom, fullTo, end] = regionCorners(region)
+  if (time <= start || time >= end) return 0
+  if (time < fullFrom) return (time - start) / (fullFrom - start)
+  if (time > fullTo) return (end - time) / (end - fullTo)
+  return 1
+}
+
+// Runs the whole-track output through each region's chain in parallel. Gains crossfade between
+// the untouched path and a region's chain, so outside every region the input passes straight through.
+export function createRegionGraph(
+  audioContext: BaseAudioContext,
+  input: AudioNode,
+  output: AudioNode,
+): RegionGraph {
+  const dryGain = audioContext.createGain()
+  const branches = new Map<string, { gain: GainNode; graph: ChainGraph }>()
+  let current: ResolvedRegion[] = []
+
+  input.connect(dryGain)
+  dryGain.connect(output)
+
+  const sync = (regions: ResolvedRegion[]) => {
+    branches.forEach((branch, regionId) => {
+      if (regions.some((region) => region.regionId === regionId)) return
+      branch.graph.dispose()
+      branch.gain.disconnect()
+      branches.delete(regionId)
+    })
+
+    regions.forEach((region) => {
+      let branch = branches.get(region.regionId)
+      if (!branch) {
+        const gain = audioContext.createGain()
+        // Silent until scheduled, so a new region never flashes in outside its range
+        gain.gain.value = 0
+        branch = { gain, graph: createChainGraph(audioContext, input, gain) }
+        gain.connect(output)
+        branches.set(region.regionId, branch)
+      }
+      branch.graph.sync(region.slots)
+    })
+
+    current = regions
+  }
+
+  const schedule = (mediaTime: number, rate: number, playing: boolean) => {
+    const now = audioContext.currentTime
+    const breakpoints = current
+      .flatMap(regionCorners)
+      .filter((time) => time > mediaTime)
+      .sort((a, b) => a - b)
+
+    // Every envelope is linear between its own corners, so ramping between all corners is exact
+    const automate = (param: AudioParam, levelAt: (time: number) => number) => {
+      param.cancelScheduledValues(now)
+      param.setValueAtTime(levelAt(mediaTime), now)
+      if (!playing) return
+      breakpoints.forEach((time) => {
+        param.linearRampToValueAtTime(levelAt(time), now + (time - mediaTime) / rate)
+      })
+    }
+
+    current.forEach((region) => {
+      automate(branches.get(region.regionId)!.gain.gain, (time) => regionLevel(region, time))
+    })
+    automate(dryGain.gain, (time) =>
+      Math.max(0, 1 - current.reduce((sum, region) => sum + regionLevel(region, time), 0)),
+    )
+  }
+
+  return {
+    sync,
+    schedule,
+    getSlotNode: (slotId) => {
+      let slotNode: SlotNode | undefined
+      branches.forEach((branch) => {
+        slotNode ??= branch.graph.getSlotNode(slotId)
+      })
+      return slotNode
+    },
+    dispose: () => {
+      sync([])
+      input.disconnect(dryGain)
+      dryGain.disconnect()
+      current = []
+    },
+  }
+}
@@ -0,0 +1,21 @@
+// Effects that have been taken out of the library. Saved chains can still hold them, so loading
+// one says where the effect went instead of leaving it out without a word.
+const RETIRED_EFFECTS = [
+  {
+    id: 37,
+    slug: "reverse",
+    note: "Reverse is no longer an effect, use the Reverse or Reverse reverb edit in the editor.",
+  },
+]
+
+// What a load left out, from the ids or slugs of the effects it couldn't find. Empty when
+// nothing was dropped.
+export function describeDroppedEffects(dropped: (number | string)[]) {
+  if (dropped.length === 0) return ""
+  const notes = RETIRED_EFFECTS.filter((effect) => dropped.includes(effect.id) || dropped.includes(effect.slug))
+  const summary =
+    dropped.length === 1
+      ? "Left out 1 effect that no longer exists."
+      : `Left out ${dropped.length} effects that no longer exist.`
+  return [summary, ...notes.map((effect) => effect.note)].join(" ")
+}
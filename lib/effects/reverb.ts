@@ -0,0 +1,52 @@
+import { Waves } from "lucide-react"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const reverb: EffectDefinition = {
+  id: 3,
+  slug: "reverb",
+  name: "Reverb",
+  description: "Add spacious echoes",
+  category: "basic",
+  icon: Waves,
+  params: [
+    { id: "length", name: "Length", min: 0.5, max: 8, default: 3, unit: "s", curve: "log" },
+    { id: "decay", name: "Decay", min: 1, max: 6, default: 2 },
+  ],
+  tail: (params) => params.length,
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    const convolver = nodes.add(audioContext.createConvolver())
+
+    // Create impulse response for reverb
+    const createImpulse = (seconds: number, decayPower: number) => {
+      const sampleRate = audioContext.sampleRate
+      const length = Math.floor(sampleRate * seconds)
+      const impulse = audioContext.createBuffer(2, length, sampleRate)
+      const leftChannel = impulse.getChannelData(0)
+      const rightChannel = impulse.getChannelData(1)
+
+      for (let i = 0; i < length; i++) {
+        const decay = Math.pow(1 - i / length, decayPower)
+        leftChannel[i] = (Math.random() * 2 - 1) * decay
+        rightChannel[i] = (Math.random() * 2 - 1) * decay
+      }
+      return impulse
+    }
+
+    const current = { ...params }
+    convolver.buffer = createImpulse(current.length, current.decay)
+    input.connect(convolver)
+    return {
+      input,
+      output: convolver,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        current[id] = value
+        convolver.buffer = createImpulse(current.length, current.decay)
+      },
+    }
+  },
+}
@@ -0,0 +1,70 @@
+import { Waves } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const stadiumEcho: EffectDefinition = {
+  id: 45,
+  slug: "stadium-echo",
+  name: "Stadium Echo",
+  description: "Large venue reverb",
+  category: "spatial",
+  icon: Waves,
+  defaultMix: 0.5,
+  params: [
+    { id: "size", name: "Size", min: 0.5, max: 2, default: 1, unit: "x" },
+  ],
+  tail: (params) => 5 * params.size,
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a stadium echo effect
+    const convolver = nodes.add(audioContext.createConvolver())
+
+    // Create impulse response for stadium
+    const createImpulse = (size: number) => {
+      const sampleRate = audioContext.sampleRate
+      const length = Math.floor(sampleRate * 5 * size) // 5 seconds at normal size
+      const impulse = audioContext.createBuffer(2, length, sampleRate)
+      const leftChannel = impulse.getChannelData(0)
+      const rightChannel = impulse.getChannelData(1)
+
+      // Create multiple echoes
+      const echoes = [
+        { delay: 0.8, gain: 0.7 },
+        { delay: 1.2, gain: 0.5 },
+        { delay: 1.8, gain: 0.3 },
+        { delay: 2.5, gain: 0.2 },
+        { delay: 3.5, gain: 0.1 },
+      ]
+
+      // Add the direct sound
+      leftChannel[0] = 1
+      rightChannel[0] = 1
+
+      // Add the echoes
+      for (const echo of echoes) {
+        const delaySamples = Math.floor(echo.delay * size * sampleRate)
+        if (delaySamples < length) {
+          leftChannel[delaySamples] = echo.gain * (Math.random() * 0.2 + 0.9) // Slight randomization
+          rightChannel[delaySamples] = echo.gain * (Math.random() * 0.2 + 0.9)
+        }
+      }
+      return impulse
+    }
+
+    convolver.buffer = createImpulse(params.size)
+
+    input.connect(convolver)
+
+    return {
+      input,
+      output: convolver,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "size") convolver.buffer = createImpulse(value)
+      },
+    }
+  },
+}
@@ -0,0 +1,48 @@
+import { Headphones } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const stereoWidener: EffectDefinition = {
+  id: 16,
+  slug: "stereo-widener",
+  name: "Stereo Widener",
+  description: "Expand stereo field",
+  category: "spatial",
+  icon: Headphones,
+  params: [{ id: "delay", name: "Width", min: 1, max: 30, default: 10, unit: "ms" }],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a stereo panner
+    const leftPanner = nodes.add(audioContext.createStereoPanner())
+    leftPanner.pan.value = -1
+
+    const rightPanner = nodes.add(audioContext.createStereoPanner())
+    rightPanner.pan.value = 1
+
+    // Create phase shifter for right channel
+    const rightDelay = nodes.add(audioContext.createDelay())
+    rightDelay.delayTime.value = params.delay / 1000
+
+    // Connect the source to both panners
+    input.connect(leftPanner)
+    input.connect(rightDelay)
+    rightDelay.connect(rightPanner)
+
+    // Create a merger to combine the left and right signals
+    const merger = nodes.add(audioContext.createGain())
+    leftPanner.connect(merger)
+    rightPanner.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "delay") rampParam(rightDelay.delayTime, value / 1000, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,86 @@
+import { Repeat } from "lucide-react"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const stutter: EffectDefinition = {
+  id: 39,
+  slug: "stutter",
+  name: "Stutter",
+  description: "Rapid repetition",
+  category: "experimental",
+  icon: Repeat,
+  params: [{ id: "probability", name: "Frequency", min: 0, max: 0.5, default: 0.1 }],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Worklets run off the main thread; the script processor below is only a fallback
+    if (hasAudioWorklets(audioContext)) {
+      const { node, setParam } = createWorkletNode(audioContext, "stutter-processor", params)
+      nodes.add(node)
+      input.connect(node)
+      return { input, output: node, dispose: nodes.dispose, setParam }
+    }
+
+    // Create a stutter effect
+    const bufferSize = 4096
+    const scriptProcessor = nodes.add(audioContext.createScriptProcessor(bufferSize, 1, 1))
+
+    const buffer = new Float32Array(bufferSize)
+    let stutterActive = false
+    let stutterCounter = 0
+    let stutterRate = 4 // Repeat every 4 samples
+    let probability = params.probability
+
+    scriptProcessor.onaudioprocess = (event) => {
+      const inputBuffer = event.inputBuffer
+      const outputBuffer = event.outputBuffer
+
+      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
+        const inputData = inputBuffer.getChannelData(channel)
+        const outputData = outputBuffer.getChannelData(channel)
+
+        // Randomly activate stutter
+        if (Math.random() < probability && !stutterActive) {
+          stutterActive = true
+          stutterCounter = Math.floor(Math.random() * 20) + 10
+          stutterRate = Math.pow(2, Math.floor(Math.random() * 4) + 2) // 4, 8, 16, or 32
+
+          // Copy input to buffer
+          for (let i = 0; i < inputData.length; i++) {
+            buffer[i] = inputData[i]
+          }
+        }
+
+        if (stutterActive) {
+          // Apply stutter effect
+          for (let i = 0; i < outputData.length; i++) {
+            outputData[i] = buffer[Math.floor(i / stutterRate) * stutterRate]
+          }
+
+          stutterCounter--
+          if (stutterCounter <= 0) {
+            stutterActive = false
+          }
+        } else {
+          // Normal processing
+          for (let i = 0; i < outputData.length; i++) {
+            outputData[i] = inputData[i]
+          }
+        }
+      }
+    }
+
+    input.connect(scriptProcessor)
+
+    return {
+      input,
+      output: scriptProcessor,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "probability") probability = value
+      },
+    }
+  },
+}
@@ -0,0 +1,61 @@
+import { Radio } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const tapeSaturation: EffectDefinition = {
+  id: 33,
+  slug: "tape-saturation",
+  name: "Tape Saturation",
+  description: "Analog tape warmth",
+  category: "retro",
+  icon: Radio,
+  params: [
+    { id: "drive", name: "Drive", min: 1, max: 10, default: 2 },
+    { id: "tone", name: "Tone", min: 2000, max: 16000, default: 7500, unit: "Hz", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a tape saturation effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.tone
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = 20
+
+    const distortion = nodes.add(audioContext.createWaveShaper())
+    function makeDistortionCurve(amount = 50) {
+      const k = amount
+      const n_samples = 44100
+      const curve = new Float32Array(n_samples)
+
+      for (let i = 0; i < n_samples; ++i) {
+        const x = (i * 2) / n_samples - 1
+        // Soft clipping function
+        curve[i] = Math.tanh(k * x) / Math.tanh(k)
+      }
+      return curve
+    }
+
+    distortion.curve = makeDistortionCurve(params.drive)
+    distortion.oversample = "4x"
+
+    input.connect(highPass)
+    highPass.connect(distortion)
+    distortion.connect(lowPass)
+
+    return {
+      input,
+      output: lowPass,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "drive") distortion.curve = makeDistortionCurve(value)
+        if (id === "tone") rampParam(lowPass.frequency, value, audioContext)
+      },
+    }
+  },
+}
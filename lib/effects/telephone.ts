@@ -0,0 +1,44 @@
+import { Phone } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const telephone: EffectDefinition = {
+  id: 7,
+  slug: "telephone",
+  name: "Telephone",
+  description: "Old phone filter",
+  category: "basic",
+  icon: Phone,
+  params: [
+    { id: "lowCut", name: "Low Cut", min: 200, max: 1000, default: 500, unit: "Hz", curve: "log" },
+    { id: "highCut", name: "High Cut", min: 1000, max: 5000, default: 2000, unit: "Hz", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a bandpass filter to simulate telephone effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.highCut
+    lowPass.Q.value = 0.7
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = params.lowCut
+    highPass.Q.value = 0.7
+
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    return {
+      input,
+      output: lowPass,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "lowCut") rampParam(highPass.frequency, value, audioContext)
+        if (id === "highCut") rampParam(lowPass.frequency, value, audioContext)
+      },
+    }
+  },
+}
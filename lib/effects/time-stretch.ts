@@ -0,0 +1,39 @@
+import { FastForward } from "lucide-react"
+import { createPitchShifter } from "./dsp"
+import type { EffectDefinition } from "./types"
+
+// Semitones that undo the pitch change of playing at a given speed
+const compensation = (rate: number) => -12 * Math.log2(rate)
+
+export const timeStretch: EffectDefinition = {
+  id: 40,
+  slug: "time-stretch",
+  name: "Time Stretch",
+  description: "Change speed without pitch",
+  category: "experimental",
+  icon: FastForward,
+  params: [
+    { id: "rate", name: "Speed", min: 0.25, max: 4, default: 0.7, step: 0.01, unit: "x", curve: "log" },
+    { id: "transients", name: "Transients", min: 0, max: 1, default: 1, step: 1, options: ["Smooth", "Preserve"] },
+  ],
+  // The source plays at the new speed, which moves the pitch too, and the shifter moves it back.
+  // This works the same live and in an offline render, unlike the browser's own pitch correction.
+  // The correction follows the speed the engine actually plays at, which a later speed effect or
+  // bypassing this one changes, and any dry share would bring the moved pitch back.
+  playbackRate: (params) => params.rate,
+  wetOnly: true,
+  create: (audioContext, params) => {
+    const shifter = createPitchShifter(audioContext, {
+      semitones: compensation(params.rate),
+      transients: params.transients,
+    })
+
+    return {
+      ...shifter,
+      setParam: (id, value) => {
+        if (id === "transients") shifter.setParam?.(id, value)
+      },
+      setPlaybackRate: (rate) => shifter.setParam?.("semitones", compensation(rate)),
+    }
+  },
+}
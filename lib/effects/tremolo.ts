@@ -0,0 +1,59 @@
+import { Vibrate } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const tremolo: EffectDefinition = {
+  id: 12,
+  slug: "tremolo",
+  name: "Tremolo",
+  description: "Amplitude variation",
+  category: "basic",
+  icon: Vibrate,
+  params: [
+    { id: "rate", name: "Rate", min: 0.5, max: 20, default: 5, unit: "Hz", curve: "log" },
+    { id: "depth", name: "Depth", min: 0, max: 1, default: 1 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a gain node for amplitude modulation
+    const gain = nodes.add(audioContext.createGain())
+
+    // Create an oscillator for modulation
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.rate
+
+    // Scale the oscillator so the gain swings between 1 - depth and 1
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.depth / 2
+
+    // Connect the oscillator to the gain
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(gain.gain)
+
+    // Set the gain range for tremolo
+    gain.gain.value = 1 - params.depth / 2
+
+    // Start the oscillator
+    oscillator.start()
+
+    // Connect the source to the gain
+    input.connect(gain)
+
+    return {
+      input,
+      output: gain,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "rate") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "depth") {
+          rampParam(oscillatorGain.gain, value / 2, audioContext)
+          rampParam(gain.gain, 1 - value / 2, audioContext)
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,36 @@
+import type { LucideIcon } from "lucide-react"
+import type { EffectParam, EffectParamValues } from "@/lib/audio/effect-params"
+
+export type EffectCategory = "basic" | "vocal" | "spatial" | "retro" | "experimental"
+
+export type EffectInstance = {
+  input: AudioNode
+  output: AudioNode
+  // Applies a parameter change to the running nodes without rebuilding the chain
+  setParam?: (id: string, value: number) => void
+  // Seconds the output lags the input, which the slot matches on its dry path
+  latency?: number
+  // Follows the rate the engine plays the source at, for effects that undo its pitch change
+  setPlaybackRate?: (rate: number) => void
+  // Stops oscillators and timers and disconnects every node the instance created
+  dispose: () => void
+}
+
+export type EffectDefinition = {
+  id: number
+  slug: string
+  name: string
+  description: string
+  category: EffectCategory
+  icon: LucideIcon
+  params: EffectParam[]
+  // Starting wet/dry balance for new slots, 1 when the effect is meant to replace the dry signal
+  defaultMix?: number
+  // Always fully wet, for effects a dry share would undo, so slots get no mix control
+  wetOnly?: boolean
+  // Speed effects change the playback rate of the source instead of adding nodes
+  playbackRate?: (params: EffectParamValues) => number
+  // Seconds the effect keeps sounding after its input stops, rendered past the end on export
+  tail?: (params: EffectParamValues) => number
+  create: (audioContext: BaseAudioContext, params: EffectParamValues) => EffectInstance
+}
@@ -0,0 +1,60 @@
+import { Waves } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const underwater: EffectDefinition = {
+  id: 20,
+  slug: "underwater",
+  name: "Underwater",
+  description: "Submerged sound effect",
+  category: "experimental",
+  icon: Waves,
+  params: [
+    { id: "cutoff", name: "Depth", min: 200, max: 3000, default: 1000, unit: "Hz", curve: "log" },
+    { id: "resonance", name: "Resonance", min: 0.1, max: 10, default: 2, curve: "log" },
+  ],
+  tail: () => 2,
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create filters for underwater sound
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.cutoff
+    lowPass.Q.value = params.resonance
+
+    // Create a reverb for underwater ambience
+    const convolver = nodes.add(audioContext.createConvolver())
+
+    // Create impulse response for underwater reverb
+    const sampleRate = audioContext.sampleRate
+    const length = sampleRate * 2 // 2 seconds
+    const impulse = audioContext.createBuffer(2, length, sampleRate)
+    const leftChannel = impulse.getChannelData(0)
+    const rightChannel = impulse.getChannelData(1)
+
+    for (let i = 0; i < length; i++) {
+      const decay = Math.pow(1 - i / length, 1.5)
+      leftChannel[i] = (Math.random() * 2 - 1) * decay
+      rightChannel[i] = (Math.random() * 2 - 1) * decay
+    }
+
+    convolver.buffer = impulse
+
+    // Connect the nodes
+    input.connect(lowPass)
+    lowPass.connect(convolver)
+
+    return {
+      input,
+      output: convolver,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "cutoff") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "resonance") rampParam(lowPass.Q, value, audioContext)
+      },
+    }
+  },
+}
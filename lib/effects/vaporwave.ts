@@ -0,0 +1,21 @@
+import { Radio } from "lucide-react"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const vaporwave: EffectDefinition = {
+  id: 5,
+  slug: "vaporwave",
+  name: "Vaporwave",
+  description: "Slow down and deepen",
+  category: "basic",
+  icon: Radio,
+  params: [{ id: "rate", name: "Speed", min: 0.5, max: 0.95, default: 0.8, step: 0.01, unit: "x" }],
+  playbackRate: (params) => params.rate,
+  create: (audioContext) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // For vaporwave, we slow down playback rate
+    return { input, output: input, dispose: nodes.dispose }
+  },
+}
@@ -0,0 +1,70 @@
+import { Tv2 } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNoiseSource } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const vhsAudio: EffectDefinition = {
+  id: 35,
+  slug: "vhs-audio",
+  name: "VHS Audio",
+  description: "Video tape audio quality",
+  category: "retro",
+  icon: Tv2,
+  params: [
+    { id: "tone", name: "Tone", min: 2000, max: 10000, default: 5000, unit: "Hz", curve: "log" },
+    { id: "noise", name: "Tracking Noise", min: 0, max: 0.1, default: 0.02 },
+    { id: "dropoutRate", name: "Dropout Rate", min: 0.01, max: 1, default: 0.1, unit: "Hz", curve: "log" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a VHS audio effect
+    const lowPass = nodes.add(audioContext.createBiquadFilter())
+    lowPass.type = "lowpass"
+    lowPass.frequency.value = params.tone
+
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = 150
+
+    // Add tracking noise
+    const noiseGain = nodes.add(audioContext.createGain())
+    noiseGain.gain.value = params.noise
+
+    const noise = nodes.add(createNoiseSource(audioContext))
+
+    // Add dropouts
+    const dropoutOscillator = nodes.add(audioContext.createOscillator())
+    dropoutOscillator.type = "square"
+    dropoutOscillator.frequency.value = params.dropoutRate
+
+    const dropoutGain = nodes.add(audioContext.createGain())
+    dropoutGain.gain.value = 0.95
+
+    dropoutOscillator.connect(dropoutGain.gain)
+    dropoutOscillator.start()
+
+    noise.connect(noiseGain)
+
+    input.connect(highPass)
+    highPass.connect(lowPass)
+    lowPass.connect(dropoutGain)
+
+    const merger = nodes.add(audioContext.createGain())
+    dropoutGain.connect(merger)
+    noiseGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "tone") rampParam(lowPass.frequency, value, audioContext)
+        if (id === "noise") rampParam(noiseGain.gain, value, audioContext)
+        if (id === "dropoutRate") rampParam(dropoutOscillator.frequency, value, audioContext)
+      },
+    }
+  },
+}
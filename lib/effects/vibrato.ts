@@ -0,0 +1,54 @@
+import { Vibrate } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const vibrato: EffectDefinition = {
+  id: 13,
+  slug: "vibrato",
+  name: "Vibrato",
+  description: "Pitch variation",
+  category: "basic",
+  icon: Vibrate,
+  params: [
+    { id: "rate", name: "Rate", min: 1, max: 12, default: 6, unit: "Hz" },
+    { id: "depth", name: "Depth", min: 0, max: 5, default: 3, unit: "ms" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a delay node for vibrato effect
+    const delay = nodes.add(audioContext.createDelay())
+    delay.delayTime.value = 0.005
+
+    // Create an oscillator for modulation
+    const oscillator = nodes.add(audioContext.createOscillator())
+    oscillator.type = "sine"
+    oscillator.frequency.value = params.rate
+
+    // Create a gain for the oscillator
+    const oscillatorGain = nodes.add(audioContext.createGain())
+    oscillatorGain.gain.value = params.depth / 1000
+
+    // Connect the oscillator to the delay time
+    oscillator.connect(oscillatorGain)
+    oscillatorGain.connect(delay.delayTime)
+
+    // Start the oscillator
+    oscillator.start()
+
+    // Connect the source to the delay
+    input.connect(delay)
+
+    return {
+      input,
+      output: delay,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "rate") rampParam(oscillator.frequency, value, audioContext)
+        if (id === "depth") rampParam(oscillatorGain.gain, value / 1000, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,54 @@
+import { Disc } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNoiseSource } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const vinyl: EffectDefinition = {
+  id: 17,
+  slug: "vinyl",
+  name: "Vinyl",
+  description: "Record player effect",
+  category: "retro",
+  icon: Disc,
+  params: [
+    { id: "tone", name: "Tone", min: 2000, max: 16000, default: 8000, unit: "Hz", curve: "log" },
+    { id: "noise", name: "Crackle", min: 0, max: 0.1, default: 0.01 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a filter for vinyl sound
+    const filter = nodes.add(audioContext.createBiquadFilter())
+    filter.type = "lowpass"
+    filter.frequency.value = params.tone
+
+    // Create a gain node for noise
+    const noiseGain = nodes.add(audioContext.createGain())
+    noiseGain.gain.value = params.noise
+
+    const noise = nodes.add(createNoiseSource(audioContext))
+
+    // Connect the noise to the gain
+    noise.connect(noiseGain)
+
+    // Connect the source to the filter
+    input.connect(filter)
+
+    // Create a merger to combine the filtered signal and noise
+    const merger = nodes.add(audioContext.createGain())
+    filter.connect(merger)
+    noiseGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "tone") rampParam(filter.frequency, value, audioContext)
+        if (id === "noise") rampParam(noiseGain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,78 @@
+import { Mic2 } from "lucide-react"
+import { createWorkletNode, hasAudioWorklets } from "@/lib/audio/worklets"
+import { getVocoderCarrier, subscribeVocoderCarrier } from "./carrier"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+// Same order as the carrier types in vocoder-processor.js
+export const VOCODER_CARRIERS = ["Sawtooth", "Square", "Noise", "Uploaded File"]
+export const VOCODER_FILE_CARRIER = VOCODER_CARRIERS.length - 1
+
+export const vocoder: EffectDefinition = {
+  id: 22,
+  slug: "vocoder",
+  name: "Vocoder",
+  description: "Robot voice effect",
+  category: "vocal",
+  icon: Mic2,
+  params: [
+    {
+      id: "carrier",
+      name: "Carrier",
+      min: 0,
+      max: VOCODER_FILE_CARRIER,
+      default: 0,
+      step: 1,
+      options: VOCODER_CARRIERS,
+    },
+    { id: "pitch", name: "Carrier Pitch", min: 40, max: 1000, default: 110, unit: "Hz", curve: "log" },
+    { id: "bands", name: "Bands", min: 8, max: 64, default: 24, step: 1 },
+    { id: "formant", name: "Formant Shift", min: -12, max: 12, default: 0, step: 0.5, unit: "st" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // There's no fallback, band-splitting dozens of filters on the main thread isn't workable
+    if (!hasAudioWorklets(audioContext)) return { input, output: input, dispose: nodes.dispose }
+
+    // The audio being processed is the modulator on the first input, a file carrier plays into the second
+    const { node, setParam } = createWorkletNode(audioContext, "vocoder-processor", params, { numberOfInputs: 2 })
+    nodes.add(node)
+    input.connect(node)
+
+    let carrierSource: AudioBufferSourceNode | null = null
+    const connectCarrier = () => {
+      if (carrierSource) nodes.remove(carrierSource)
+      carrierSource = null
+
+      const carrier = getVocoderCarrier()
+      if (!carrier) return
+      carrierSource = nodes.add(audioContext.createBufferSource())
+      carrierSource.buffer = carrier.buffer
+      carrierSource.loop = true
+      carrierSource.connect(node, 0, 1)
+      carrierSource.start()
+    }
+    connectCarrier()
+    const unsubscribe = subscribeVocoderCarrier(connectCarrier)
+
+    return {
+      input,
+      output: node,
+      dispose: () => {
+        unsubscribe()
+        nodes.dispose()
+      },
+      setParam: (id, value) => {
+        // Carrier types and band counts are discrete, gliding would pass through the ones in between
+        // and the processor rebuilds its filter bank for every band count it sees
+        if (id === "carrier" || id === "bands") {
+          node.parameters.get(id)?.setValueAtTime(value, audioContext.currentTime)
+        } else {
+          setParam(id, value)
+        }
+      },
+    }
+  },
+}
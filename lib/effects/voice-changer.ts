@@ -0,0 +1,46 @@
+import { Mic } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const voiceChanger: EffectDefinition = {
+  id: 24,
+  slug: "voice-changer",
+  name: "Voice Changer",
+  description: "Alter voice characteristics",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "formant", name: "Formant", min: 500, max: 4000, default: 1500, unit: "Hz", curve: "log" },
+    { id: "gain", name: "Emphasis", min: 0, max: 20, default: 10, step: 0.5, unit: "dB" },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a voice changer effect
+    const pitchShift = nodes.add(audioContext.createBiquadFilter())
+    pitchShift.type = "allpass"
+    pitchShift.frequency.value = 700
+    pitchShift.Q.value = 10
+
+    const formantShift = nodes.add(audioContext.createBiquadFilter())
+    formantShift.type = "peaking"
+    formantShift.frequency.value = params.formant
+    formantShift.Q.value = 5
+    formantShift.gain.value = params.gain
+
+    input.connect(pitchShift)
+    pitchShift.connect(formantShift)
+
+    return {
+      input,
+      output: formantShift,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "formant") rampParam(formantShift.frequency, value, audioContext)
+        if (id === "gain") rampParam(formantShift.gain, value, audioContext)
+      },
+    }
+  },
+}
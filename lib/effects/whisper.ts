@@ -0,0 +1,55 @@
+import { Mic } from "lucide-react"
+import { rampParam } from "@/lib/audio/effect-params"
+import { createNoiseSource } from "./dsp"
+import { createNodeGroup } from "./nodes"
+import type { EffectDefinition } from "./types"
+
+export const whisper: EffectDefinition = {
+  id: 25,
+  slug: "whisper",
+  name: "Whisper",
+  description: "Quiet vocal effect",
+  category: "vocal",
+  icon: Mic,
+  params: [
+    { id: "cutoff", name: "Airiness", min: 500, max: 4000, default: 1000, unit: "Hz", curve: "log" },
+    { id: "noise", name: "Breath", min: 0, max: 0.2, default: 0.05 },
+  ],
+  create: (audioContext, params) => {
+    const nodes = createNodeGroup()
+    const input = nodes.add(audioContext.createGain())
+
+    // Create a whisper effect
+    const highPass = nodes.add(audioContext.createBiquadFilter())
+    highPass.type = "highpass"
+    highPass.frequency.value = params.cutoff
+
+    const gain = nodes.add(audioContext.createGain())
+    gain.gain.value = 0.3
+
+    // Add some noise
+    const noiseGain = nodes.add(audioContext.createGain())
+    noiseGain.gain.value = params.noise
+
+    const noise = nodes.add(createNoiseSource(audioContext))
+
+    noise.connect(noiseGain)
+
+    input.connect(highPass)
+    highPass.connect(gain)
+
+    const merger = nodes.add(audioContext.createGain())
+    gain.connect(merger)
+    noiseGain.connect(merger)
+
+    return {
+      input,
+      output: merger,
+      dispose: nodes.dispose,
+      setParam: (id, value) => {
+        if (id === "cutoff") rampParam(highPass.frequency, value, audioContext)
+        if (id === "noise") rampParam(noiseGain.gain, value, audioContext)
+      },
+    }
+  },
+}
@@ -0,0 +1,106 @@
+// Undo history built from commands. Each command knows how to apply and revert itself, so any
+// part of the app can record its own mutations without the store knowing about them.
+export type Command = {
+  label: string
+  undo: () => void
+  redo: () => void
+  // Consecutive commands sharing a key collapse into one step, so a slider drag undoes at once
+  mergeKey?: string
+}
+
+export type HistoryEntry = {
+  id: number
+  label: string
+  timestamp: number
+}
+
+export type HistoryState = {
+  entries: HistoryEntry[]
+  // Number of entries currently applied, entries from here on can be redone
+  position: number
+}
+
+export type HistoryStore = {
+  record: (command: Command) => void
+  undo: () => void
+  redo: () => void
+  // Undoes or redoes until exactly `position` entries are applied
+  jumpTo: (position: number) => void
+  clear: () => void
+  getState: () => HistoryState
+  subscribe: (listener: () => void) => () => void
+}
+
+const HISTORY_LIMIT = 200
+// Longest pause between two merged commands
+const MERGE_WINDOW = 1000
+
+export function createHistoryStore(): HistoryStore {
+  let commands: (Command & HistoryEntry)[] = []
+  let position = 0
+  let nextId = 1
+  let state: HistoryState = { entries: [], position: 0 }
+  const listeners = new Set<() => void>()
+
+  // A fresh object per change, as useSyncExternalStore compares snapshots by identity
+  const publish = () => {
+    state = {
+      entries: commands.map(({ id, label, timestamp }) => ({ id, label, timestamp })),
+      position,
+    }
+    listeners.forEach((listener) => listener())
+  }
+
+  const record = (command: Command) => {
+    const now = Date.now()
+    const last = position > 0 ? commands[position - 1] : undefined
+    commands = commands.slice(0, position)
+
+    if (last && command.mergeKey && last.mergeKey === command.mergeKey && now - last.timestamp < MERGE_WINDOW) {
+      // Keeps the oldest undo and the newest redo
+      commands[position - 1] = { ...last, label: command.label, redo: command.redo, timestamp: now }
+    } else {
+      commands.push({ ...command, id: nextId++, timestamp: now })
+      if (commands.length > HISTORY_LIMIT) commands.shift()
+      position = commands.length
+    }
+    publish()
+  }
+
+  const step = (direction: -1 | 1) => {
+    if (direction < 0 && position > 0) {
+      position--
+      commands[position].undo()
+    } else if (direction > 0 && position < commands.length) {
+      commands[position].redo()
+      position++
+    }
+  }
+
+  return {
+    record,
+    undo: () => {
+      step(-1)
+      publish()
+    },
+    redo: () => {
+      step(1)
+      publish()
+    },
+    jumpTo: (target) => {
+      const clamped = Math.max(0, Math.min(commands.length, target))
+      while (position !== clamped) step(position > clamped ? -1 : 1)
+      publish()
+    },
+    clear: () => {
+      commands = []
+      position = 0
+      publish()
+    },
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
@@ -0,0 +1,93 @@
+import type { EffectParamValues } from "@/lib/audio/effect-params"
+import type { Preset, PresetSlot } from "./preset"
+
+type FactorySlot = [effect: string, params?: EffectParamValues, mix?: number]
+
+// Factory ids are fixed so favorites and edits on them survive reloads
+function factoryPreset(id: string, name: string, tags: string[], slots: FactorySlot[]): Preset {
+  return {
+    presetId: `factory-${id}`,
+    name,
+    tags,
+    favorite: false,
+    factory: true,
+    slots: slots.map(([effect, params = {}, mix = 1]): PresetSlot => ({ effect, bypassed: false, mix, params })),
+    createdAt: 0,
+    updatedAt: 0,
+  }
+}
+
+// Starting points built from the effect library. Parameters left out use the effect defaults.
+export const FACTORY_PRESETS: Preset[] = [
+  factoryPreset("podcast-voice", "Podcast Voice", ["voice", "podcast", "clean"], [
+    ["compressor", { threshold: -20, knee: 20, ratio: 4, attack: 0.01, release: 0.2 }],
+    ["bass-boost", { gain: 4, frequency: 120 }],
+    ["reverb", { length: 1, decay: 4 }, 0.12],
+  ]),
+  factoryPreset("radio-host", "Radio Host", ["voice", "broadcast"], [
+    ["compressor", { threshold: -28, knee: 10, ratio: 8, attack: 0.005, release: 0.15 }],
+    ["bass-boost", { gain: 6, frequency: 90 }],
+    ["tape-saturation", { drive: 1.5, tone: 12000 }, 0.4],
+  ]),
+  factoryPreset("vocal-doubler", "Vocal Doubler", ["voice", "music", "wide"], [
+    ["chorus", { rate: 0.3, depth: 1.5, delay: 25, level: 0.4 }, 0.5],
+    ["stereo-widener", { delay: 12 }, 0.6],
+  ]),
+  factoryPreset("vintage-broadcast", "Vintage Broadcast", ["retro", "voice"], [
+    ["am-radio", { drive: 30 }],
+    ["vinyl", { tone: 5000, noise: 0.015 }],
+  ]),
+  factoryPreset("old-tape", "Old Tape", ["retro", "music"], [
+    ["tape-saturation", { drive: 3, tone: 6000 }],
+    ["cassette", { wowDepth: 3, hiss: 0.008 }],
+  ]),
+  factoryPreset("lofi-beats", "Lo-Fi Beats", ["retro", "music", "chill"], [
+    ["lo-fi", { cutoff: 3000, drive: 30 }],
+    ["vinyl", { noise: 0.02 }],
+    ["reverb", { length: 2, decay: 3 }, 0.25],
+  ]),
+  factoryPreset("slowed-reverb", "Slowed + Reverb", ["music", "chill"], [
+    ["vaporwave", { rate: 0.85 }],
+    ["reverb", { length: 5, decay: 2 }, 0.45],
+  ]),
+  factoryPreset("dub-echo", "Dub Echo", ["music", "space"], [
+    ["delay", { time: 0.375, feedback: 0.6 }, 0.35],
+    ["reverb", { length: 3, decay: 2.5 }, 0.3],
+  ]),
+  factoryPreset("walkie-talkie", "Walkie-Talkie", ["voice", "character"], [
+    ["telephone", { lowCut: 600, highCut: 2600 }],
+    ["distortion", { amount: 150 }],
+    ["compressor", { threshold: -30, ratio: 10 }],
+  ]),
+  factoryPreset("stadium-announcer", "Stadium Announcer", ["voice", "space"], [
+    ["compressor", { threshold: -24, ratio: 6 }],
+    ["megaphone", { drive: 20, level: 1.2 }, 0.6],
+    ["stadium-echo", { size: 1.4 }, 0.5],
+  ]),
+  factoryPreset("monster", "Monster", ["character", "fun"], [
+    ["monster-voice", { rate: 0.7, drive: 150 }],
+    ["reverb", { length: 2, decay: 3 }, 0.3],
+  ]),
+  factoryPreset("robot", "Robot", ["character", "fun"], [
+    ["vocoder", { carrier: 0, pitch: 120, bands: 16, formant: 0 }],
+    ["bitcrusher", { bitDepth: 8, downsample: 2 }, 0.5],
+  ]),
+  factoryPreset("underwater-dream", "Underwater Dream", ["space", "experimental"], [
+    ["underwater", { cutoff: 700, resonance: 4 }],
+    ["chorus", { rate: 0.2, depth: 4 }, 0.5],
+    ["cathedral", { length: 6 }, 0.4],
+  ]),
+  factoryPreset("headphone-trip", "Headphone Trip", ["space", "experimental"], [
+    ["8d-audio", { speed: 0.2 }],
+    ["reverb", { length: 3, decay: 2 }, 0.3],
+  ]),
+  factoryPreset("broken-signal", "Broken Signal", ["experimental", "glitch"], [
+    ["bitcrusher", { bitDepth: 6, downsample: 3 }],
+    ["glitch", { probability: 0.1, intensity: 0.4 }],
+    ["stutter", { probability: 0.15 }],
+  ]),
+  factoryPreset("jet-flange", "Jet Flange", ["music", "modulation"], [
+    ["flanger", { rate: 0.1, depth: 4, feedback: 0.7 }, 0.6],
+    ["stereo-widener", { delay: 8 }, 0.5],
+  ]),
+]
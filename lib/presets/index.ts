@@ -0,0 +1,20 @@
+export { FACTORY_PRESETS } from "./factory"
+export {
+  findDroppedEffects,
+  fromPresetSlots,
+  matchesPresetSearch,
+  normalizeChain,
+  normalizeTags,
+  parsePresetFile,
+  parsePresetSlots,
+  presetFromChain,
+  presetToChain,
+  PRESET_FILE_VERSION,
+  serializePresets,
+  toPresetSlots,
+  type Preset,
+  type PresetFile,
+  type PresetSlot,
+} from "./preset"
+export { decodeChainFragment, encodeChainFragment, type SharedChain } from "./share"
+export { deletePreset, listPresets, restoreFactoryPresets, savePresets } from "./storage"
@@ -0,0 +1,170 @@
+import { clampParam, type EffectParamValues } from "@/lib/audio/effect-params"
+import { createSlot, getEffect, getEffectBySlug, type EffectDefinition, type EffectSlot } from "@/lib/effects"
+
+// One slot of a saved chain. Effects are stored by slug so files stay readable and survive
+// changes to the numeric ids.
+export type PresetSlot = {
+  effect: string
+  bypassed: boolean
+  mix: number
+  params: EffectParamValues
+}
+
+export type Preset = {
+  presetId: string
+  name: string
+  tags: string[]
+  favorite: boolean
+  // Shipped with the app rather than saved by the user
+  factory: boolean
+  slots: PresetSlot[]
+  createdAt: number
+  updatedAt: number
+}
+
+// Bumped whenever the file layout changes, files from a newer version are refused
+export const PRESET_FILE_VERSION = 1
+const PRESET_FILE_FORMAT = "musico-presets"
+
+export type PresetFile = {
+  format: typeof PRESET_FILE_FORMAT
+  version: number
+  presets: Preset[]
+}
+
+export function createPresetId() {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Tags are compared case-insensitively, so they're stored lowercased and without duplicates
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))]
+}
+
+// Chain slots in their portable form, also used by project files
+export function toPresetSlots(chain: EffectSlot[]): PresetSlot[] {
+  return chain.flatMap((slot) => {
+    const effect = getEffect(slot.effectId)
+    if (!effect) return []
+    return [{ effect: effect.slug, bypassed: slot.bypassed, mix: slot.mix, params: { ...slot.params } }]
+  })
+}
+
+// Fresh slots from stored ones. Effects that no longer exist are skipped, parameters added since
+// get their defaults and values are clamped to the current ranges.
+export function fromPresetSlots(presetSlots: PresetSlot[]): EffectSlot[] {
+  return presetSlots.flatMap((presetSlot) => {
+    const effect = getEffectBySlug(presetSlot.effect)
+    if (!effect) return []
+
+    const slot = createSlot(effect, clampParams(effect, presetSlot.params))
+    return [{ ...slot, bypassed: presetSlot.bypassed, mix: Math.min(1, Math.max(0, presetSlot.mix)) }]
+  })
+}
+
+// Stored slots checked the same way as a preset's, for chains saved by an older version of the
+// app. Slot ids are kept.
+export function normalizeChain(chain: EffectSlot[]): EffectSlot[] {
+  return chain.flatMap((stored) => {
+    const effect = getEffect(stored.effectId)
+    if (!effect) return []
+
+    const slot = createSlot(effect, clampParams(effect, stored.params ?? {}))
+    const mix = typeof stored.mix === "number" ? Math.min(1, Math.max(0, stored.mix)) : slot.mix
+    return [{ ...slot, slotId: stored.slotId, bypassed: stored.bypassed === true, mix }]
+  })
+}
+
+// Values clamped to the current ranges. Unknown or invalid ones are dropped, so createSlot fills
+// in defaults for them.
+function clampParams(effect: EffectDefinition, values: EffectParamValues): EffectParamValues {
+  return Object.fromEntries(
+    effect.params.flatMap((param) => {
+      const value = values[param.id]
+      return typeof value === "number" && Number.isFinite(value) ? [[param.id, clampParam(param, value)]] : []
+    }),
+  )
+}
+
+// Slugs of the stored slots whose effects no longer exist, which fromPresetSlots leaves out
+export function findDroppedEffects(presetSlots: PresetSlot[]) {
+  return presetSlots.filter((presetSlot) => !getEffectBySlug(presetSlot.effect)).map((presetSlot) => presetSlot.effect)
+}
+
+export function presetFromChain(name: string, tags: string[], chain: EffectSlot[]): Preset {
+  const now = Date.now()
+  return {
+    presetId: createPresetId(),
+    name: name.trim() || "Untitled preset",
+    tags: normalizeTags(tags),
+    favorite: false,
+    factory: false,
+    slots: toPresetSlots(chain),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+export function presetToChain(preset: Preset): EffectSlot[] {
+  return fromPresetSlots(preset.slots)
+}
+
+export function matchesPresetSearch(preset: Preset, query: string) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const haystack = [preset.name.toLowerCase(), ...preset.tags, ...preset.slots.map((slot) => slot.effect)].join(" ")
+  return terms.every((term) => haystack.includes(term))
+}
+
+export function serializePresets(presets: Preset[]) {
+  const file: PresetFile = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets }
+  return JSON.stringify(file, null, 2)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null
+
+// Reads a stored slot from untrusted JSON, null when it can't be one
+function parsePresetSlot(value: unknown): PresetSlot | null {
+  if (!isRecord(value) || typeof value.effect !== "string") return null
+  const params: EffectParamValues = {}
+  Object.entries(isRecord(value.params) ? value.params : {}).forEach(([paramId, param]) => {
+    if (typeof param === "number") params[paramId] = param
+  })
+  return {
+    effect: value.effect,
+    bypassed: value.bypassed === true,
+    mix: typeof value.mix === "number" ? value.mix : 1,
+    params,
+  }
+}
+
+export function parsePresetSlots(values: unknown[]) {
+  return values.map(parsePresetSlot).filter((slot): slot is PresetSlot => slot !== null)
+}
+
+function parsePreset(value: unknown): Preset | null {
+  if (!isRecord(value) || typeof value.name !== "string" || !Array.isArray(value.slots)) return null
+  const now = Date.now()
+  return {
+    // Imported presets get new ids, so importing the same file twice never overwrites anything
+    presetId: createPresetId(),
+    name: value.name,
+    tags: Array.isArray(value.tags) ? normalizeTags(value.tags.filter((tag) => typeof tag === "string")) : [],
+    favorite: value.favorite === true,
+    factory: false,
+    slots: parsePresetSlots(value.slots),
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : now,
+    updatedAt: now,
+  }
+}
+
+// Reads a preset file, throwing when it isn't one or comes from a newer version of the app
+export function parsePresetFile(text: string): Preset[] {
+  const file: unknown = JSON.parse(text)
+  if (!isRecord(file) || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("Not a preset file")
+  }
+  if (typeof file.version !== "number" || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version ${String(file.version)}`)
+  }
+  return file.presets.map(parsePreset).filter((preset): preset is Preset => preset !== null)
+}
@@ -0,0 +1,95 @@
+import { clampParam } from "@/lib/audio/effect-params"
+import { createSlot, getEffect, type EffectSlot } from "@/lib/effects"
+
+// Chains shared as a URL fragment, `#c=<version>.<base64url JSON>`. Each slot is packed as
+// [effectId, mix percent, bypassed, ...parameter values in the effect's declared order], which
+// keeps links short enough to paste in chat. Parameters added to an effect later go at the end of
+// its list, so older links just fall back to the default for them.
+const SHARE_VERSION = 1
+const FRAGMENT_KEY = "c"
+
+export type SharedChain = {
+  chain: EffectSlot[]
+  // Slots dropped because their effect doesn't exist in this version of the app
+  skipped: number
+  // Values that were out of range or malformed and were clamped or reset to defaults
+  adjusted: number
+}
+
+const roundValue = (value: number) => Number(value.toPrecision(4))
+
+function toBase64Url(text: string) {
+  return btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(encoded: string) {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/")
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="))
+}
+
+export function encodeChainFragment(chain: EffectSlot[]) {
+  const packed = chain.flatMap((slot) => {
+    const effect = getEffect(slot.effectId)
+    if (!effect) return []
+    return [
+      [
+        effect.id,
+        Math.round(slot.mix * 100),
+        slot.bypassed ? 1 : 0,
+        ...effect.params.map((param) => roundValue(slot.params[param.id] ?? param.default)),
+      ],
+    ]
+  })
+  return `${FRAGMENT_KEY}=${SHARE_VERSION}.${toBase64Url(JSON.stringify(packed))}`
+}
+
+// Reads a chain from a URL hash. Returns null when there is none, and throws when there is one
+// that can't be read at all. Individual bad slots and values are repaired and counted instead.
+export function decodeChainFragment(hash: string): SharedChain | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(FRAGMENT_KEY)
+  if (!encoded) return null
+
+  const separator = encoded.indexOf(".")
+  const version = Number(encoded.slice(0, separator))
+  if (separator < 0 || version !== SHARE_VERSION) {
+    throw new Error(`Unsupported chain link version ${encoded.slice(0, Math.max(0, separator))}`)
+  }
+
+  const packed: unknown = JSON.parse(fromBase64Url(encoded.slice(separator + 1)))
+  if (!Array.isArray(packed)) throw new Error("Malformed chain link")
+
+  let skipped = 0
+  let adjusted = 0
+  const readNumber = (value: unknown, fallback: number, clamp: (value: number) => number) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      adjusted++
+      return fallback
+    }
+    const clamped = clamp(value)
+    if (Math.abs(clamped - value) > Math.abs(value) * 1e-3 + 1e-9) adjusted++
+    return clamped
+  }
+
+  const chain = packed.flatMap((entry: unknown) => {
+    const effect = Array.isArray(entry) ? getEffect(Number(entry[0])) : undefined
+    if (!Array.isArray(entry) || !effect) {
+      skipped++
+      return []
+    }
+
+    const [, mix, bypassed, ...values] = entry
+    const params = Object.fromEntries(
+      effect.params.map((param, index) => {
+        if (index >= values.length) return [param.id, param.default]
+        return [param.id, readNumber(values[index], param.default, (value) => clampParam(param, value))]
+      }),
+    )
+    const slot = createSlot(effect, params)
+    const defaultMix = Math.round(slot.mix * 100)
+    slot.mix = readNumber(mix, defaultMix, (value) => Math.min(100, Math.max(0, Math.round(value)))) / 100
+    slot.bypassed = bypassed === 1
+    return [slot]
+  })
+
+  return { chain, skipped, adjusted }
+}
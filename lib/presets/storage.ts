@@ -0,0 +1,26 @@
+import { PRESET_STORE, runTransaction } from "@/lib/db"
+import { FACTORY_PRESETS } from "./factory"
+import type { Preset } from "./preset"
+
+export async function listPresets() {
+  const presets = (await runTransaction<Preset[]>(PRESET_STORE, "readonly", (store) => store.getAll())) ?? []
+  return presets.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function savePresets(presets: Preset[]) {
+  await runTransaction(PRESET_STORE, "readwrite", (store) => {
+    presets.forEach((preset) => store.put(preset))
+  })
+}
+
+export async function deletePreset(presetId: string) {
+  await runTransaction(PRESET_STORE, "readwrite", (store) => store.delete(presetId))
+}
+
+// Puts back factory presets that were deleted or changed, keeping whether they were favorites
+export async function restoreFactoryPresets() {
+  const stored = new Map((await listPresets()).map((preset) => [preset.presetId, preset]))
+  await savePresets(
+    FACTORY_PRESETS.map((preset) => ({ ...preset, favorite: stored.get(preset.presetId)?.favorite ?? false })),
+  )
+}
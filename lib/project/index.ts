@@ -0,0 +1,12 @@
+export {
+  createProjectFile,
+  isProjectFile,
+  projectFilename,
+  PROJECT_EXTENSION,
+  PROJECT_VERSION,
+  readProjectFile,
+  type OpenedProject,
+  type Project,
+  type ProjectManifest,
+  type ProjectMarker,
+} from "./project"
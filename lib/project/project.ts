@@ -0,0 +1,228 @@
+import { FADE_CURVES, type EditOperation, type FadeCurve } from "@/lib/audio/edit"
+import { clampRegionFades, createRegion, type EffectRegion, type EffectSlot } from "@/lib/effects"
+import { findDroppedEffects, fromPresetSlots, parsePresetSlots, toPresetSlots, type PresetSlot } from "@/lib/presets"
+import { createZip, readZip } from "./zip"
+
+// A `.musico` project is a zip holding manifest.json, the original audio file untouched and the
+// audio of any pasted clips. Edits are kept as a list and replayed on the original when the
+// project opens, so nothing is lost to re-encoding.
+export const PROJECT_EXTENSION = ".musico"
+export const PROJECT_VERSION = 1
+const PROJECT_FORMAT = "musico-project"
+const MANIFEST_PATH = "manifest.json"
+
+// Reserved for timeline markers. The editor doesn't create any yet, so they're written empty
+// and ignored on open.
+export type ProjectMarker = {
+  time: number
+  label: string
+}
+
+// Pasted clips live in their own entries as 32-bit float samples, one channel after another
+type ManifestEdit =
+  | Exclude<EditOperation, { type: "paste" }>
+  | (Omit<Extract<EditOperation, { type: "paste" }>, "clip"> & { clip: string; channels: number })
+
+type ManifestRegion = Omit<EffectRegion, "regionId" | "chain"> & { chain: PresetSlot[] }
+
+export type ProjectManifest = {
+  format: typeof PROJECT_FORMAT
+  version: number
+  savedAt: number
+  audio: { path: string; name: string; type: string; lastModified: number }
+  // Rate the audio was decoded at, which the frame positions in the edits refer to
+  sampleRate: number
+  edits: ManifestEdit[]
+  // Chains are stored by effect slug and parameter id, so effects and parameters added in later
+  // versions need no migration and simply get their defaults
+  effectChain: PresetSlot[]
+  regions: ManifestRegion[]
+  markers: ProjectMarker[]
+  volume: number
+  isMuted: boolean
+}
+
+export type Project = {
+  file: File
+  sampleRate: number
+  edits: EditOperation[]
+  effectChain: EffectSlot[]
+  regions: EffectRegion[]
+  markers: ProjectMarker[]
+  volume: number
+  isMuted: boolean
+}
+
+// An opened project also lists the slugs of effects its chains held that no longer exist
+export type OpenedProject = Project & { droppedEffects: string[] }
+
+type RawManifest = Record<string, unknown>
+
+// Entry n upgrades a version n manifest to version n + 1, so an older project goes through each
+// step it missed. Bump PROJECT_VERSION and add an entry whenever the manifest layout changes.
+const MIGRATIONS: ((manifest: RawManifest) => RawManifest)[] = []
+
+const isRecord = (value: unknown): value is RawManifest => typeof value === "object" && value !== null
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+export function projectFilename(name: string) {
+  return `${name.replace(/\.[^.]+$/, "") || "project"}${PROJECT_EXTENSION}`
+}
+
+export function isProjectFile(file: File) {
+  return file.name.toLowerCase().endsWith(PROJECT_EXTENSION)
+}
+
+export async function createProjectFile(project: Project) {
+  const clips: { path: string; data: Uint8Array<ArrayBuffer> }[] = []
+  const edits = project.edits.map((edit): ManifestEdit => {
+    if (edit.type !== "paste") return edit
+    const path = `clips/${clips.length}.f32`
+    const length = edit.clip[0]?.length ?? 0
+    const samples = new Float32Array(length * edit.clip.length)
+    edit.clip.forEach((data, channel) => samples.set(data, channel * length))
+    clips.push({ path, data: new Uint8Array(samples.buffer) })
+    return { ...edit, clip: path, channels: edit.clip.length }
+  })
+
+  const audioPath = `audio/${project.file.name}`
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: Date.now(),
+    audio: {
+      path: audioPath,
+      name: project.file.name,
+      type: project.file.type,
+      lastModified: project.file.lastModified,
+    },
+    sampleRate: project.sampleRate,
+    edits,
+    effectChain: toPresetSlots(project.effectChain),
+    regions: project.regions.map(({ start, end, fadeIn, fadeOut, chain }) => ({
+      start,
+      end,
+      fadeIn,
+      fadeOut,
+      chain: toPresetSlots(chain),
+    })),
+    markers: project.markers,
+    volume: project.volume,
+    isMuted: project.isMuted,
+  }
+
+  return createZip([
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    { name: audioPath, data: new Uint8Array(await project.file.arrayBuffer()) },
+    ...clips.map((clip) => ({ name: clip.path, data: clip.data })),
+  ])
+}
+
+function migrateManifest(manifest: RawManifest) {
+  if (manifest.format !== PROJECT_FORMAT || !isNumber(manifest.version)) throw new Error("Not a Musico project")
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error("This project was saved by a newer version of Musico 777")
+  }
+
+  let migrated = manifest
+  for (let version = manifest.version; version < PROJECT_VERSION; version++) {
+    migrated = { ...MIGRATIONS[version - 1](migrated), version: version + 1 }
+  }
+  return migrated
+}
+
+function parseEdit(value: unknown, clips: Map<string, Uint8Array<ArrayBuffer>>): EditOperation {
+  if (!isRecord(value) || !isNumber(value.start)) throw new Error("Malformed edit in project")
+  const { start } = value
+  const end = isNumber(value.end) ? value.end : start
+
+  switch (value.type) {
+    case "trim":
+    case "delete":
+    case "normalize":
+    case "reverse":
+      return { type: value.type, start, end }
+    case "reverse-reverb":
+      return { type: "reverse-reverb", start, end, seconds: isNumber(value.seconds) ? value.seconds : 2 }
+    case "silence":
+      return { type: "silence", start, length: isNumber(value.length) ? value.length : 0 }
+    case "fade":
+      return {
+        type: "fade",
+        start,
+        end,
+        direction: value.direction === "out" ? "out" : "in",
+        curve: FADE_CURVES.some((curve) => curve.value === value.curve) ? (value.curve as FadeCurve) : "linear",
+      }
+    case "gain":
+      return { type: "gain", start, end, decibels: isNumber(value.decibels) ? value.decibels : 0 }
+    case "paste": {
+      const data = typeof value.clip === "string" ? clips.get(value.clip) : undefined
+      const channels = isNumber(value.channels) ? Math.max(1, value.channels) : 1
+      if (!data) throw new Error("A pasted clip is missing from the project")
+      const samples = new Float32Array(data.slice().buffer)
+      const length = samples.length / channels
+      const clip = Array.from({ length: channels }, (_, channel) =>
+        samples.slice(channel * length, (channel + 1) * length),
+      )
+      return { type: "paste", start, end, clip }
+    }
+    default:
+      throw new Error(`Unknown edit "${String(value.type)}" in project`)
+  }
+}
+
+// Stored chain slots, adding the slugs of effects that no longer exist to dropped
+function parseChain(value: unknown, dropped: string[]) {
+  const slots = parsePresetSlots(Array.isArray(value) ? value : [])
+  dropped.push(...findDroppedEffects(slots))
+  return fromPresetSlots(slots)
+}
+
+function parseRegion(value: unknown, dropped: string[]): EffectRegion | null {
+  if (!isRecord(value) || !isNumber(value.start) || !isNumber(value.end)) return null
+  // Regions get fresh ids, ids only have to be unique within one session. Fades are kept within
+  // the region, as the editor keeps them.
+  return clampRegionFades({
+    ...createRegion(value.start, value.end),
+    fadeIn: isNumber(value.fadeIn) ? value.fadeIn : 0,
+    fadeOut: isNumber(value.fadeOut) ? value.fadeOut : 0,
+    chain: parseChain(value.chain, dropped),
+  })
+}
+
+// Opens a project, upgrading older manifests. Throws with a readable message when it can't.
+export async function readProjectFile(file: Blob): Promise<OpenedProject> {
+  const entries = new Map((await readZip(await file.arrayBuffer())).map((entry) => [entry.name, entry.data]))
+  const manifestData = entries.get(MANIFEST_PATH)
+  if (!manifestData) throw new Error("Not a Musico project")
+
+  const raw: unknown = JSON.parse(new TextDecoder().decode(manifestData))
+  if (!isRecord(raw)) throw new Error("Not a Musico project")
+  const manifest = migrateManifest(raw)
+
+  const audio = isRecord(manifest.audio) ? manifest.audio : {}
+  const audioData = typeof audio.path === "string" ? entries.get(audio.path) : undefined
+  if (!audioData) throw new Error("The project's audio is missing")
+
+  const droppedEffects: string[] = []
+  return {
+    file: new File([audioData], typeof audio.name === "string" ? audio.name : "audio", {
+      type: typeof audio.type === "string" ? audio.type : "",
+      lastModified: isNumber(audio.lastModified) ? audio.lastModified : Date.now(),
+    }),
+    sampleRate: isNumber(manifest.sampleRate) ? manifest.sampleRate : 44100,
+    edits: (Array.isArray(manifest.edits) ? manifest.edits : []).map((edit) => parseEdit(edit, entries)),
+    effectChain: parseChain(manifest.effectChain, droppedEffects),
+    regions: (Array.isArray(manifest.regions) ? manifest.regions : [])
+      .map((region) => parseRegion(region, droppedEffects))
+      .filter((region): region is EffectRegion => region !== null),
+    markers: (Array.isArray(manifest.markers) ? manifest.markers : []).filter(
+      (marker): marker is ProjectMarker =>
+        isRecord(marker) && isNumber(marker.time) && typeof marker.label === "string",
+    ),
+    volume: isNumber(manifest.volume) ? Math.min(1, Math.max(0, manifest.volume)) : 0.7,
+    isMuted: manifest.isMuted === true,
+    droppedEffects,
+  }
+}
@@ -0,0 +1,148 @@
+// Minimal zip container. Entries are written uncompressed, since the audio inside is usually
+// compressed already; stored and deflated entries can both be read, so projects repacked by
+// other zip tools still open. Zip64 and multi-disk archives aren't supported.
+
+export type ZipEntry = {
+  name: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const VERSION = 20
+// Bit 11 marks names as UTF-8
+const UTF8_FLAG = 0x0800
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+const crcTable = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, which is what zip stores
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day = ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export function createZip(entries: ZipEntry[]) {
+  const encoder = new TextEncoder()
+  const { time, day } = dosDateTime(new Date())
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER, true)
+    local.setUint16(4, VERSION, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, day, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, CENTRAL_HEADER, true)
+    header.setUint16(4, VERSION, true)
+    header.setUint16(6, VERSION, true)
+    header.setUint16(8, UTF8_FLAG, true)
+    header.setUint16(10, METHOD_STORED, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, day, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, entry.data.length, true)
+    header.setUint32(24, entry.data.length, true)
+    header.setUint16(28, name.length, true)
+    // Extra field, comment, disk number and attributes stay zero
+    header.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + entry.data.length
+  })
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: "application/zip" })
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>) {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Reads every entry of a zip archive, throwing when the data isn't one
+export async function readZip(data: ArrayBuffer) {
+  const view = new DataView(data)
+  const bytes = new Uint8Array(data)
+  const decoder = new TextDecoder()
+
+  // The end record sits at the very end, unless an archive comment follows it
+  let end = -1
+  for (let position = data.byteLength - 22; position >= Math.max(0, data.byteLength - 22 - 0xffff); position--) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = position
+      break
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive")
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error("Corrupt zip archive")
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+    position += 46 + nameLength + extraLength + commentLength
+
+    // Local headers can carry a different extra field than the central one
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error("Corrupt zip archive")
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const stored = bytes.slice(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORED) entries.push({ name, data: stored })
+    else if (method === METHOD_DEFLATE) entries.push({ name, data: await inflate(stored) })
+    else throw new Error(`Unsupported zip compression method ${method}`)
+  }
+
+  return entries
+}
@@ -0,0 +1,98 @@
+import { runTransaction, SESSION_STORE } from "@/lib/db"
+import type { EditOperation } from "@/lib/audio/edit"
+import type { EffectRegion, EffectSlot } from "@/lib/effects"
+
+// Decoded samples, stored as they are so edited audio comes back without re-encoding
+export type StoredAudio = {
+  sampleRate: number
+  channels: Float32Array<ArrayBuffer>[]
+}
+
+// What survives a reload. Each field is its own record, so the large ones are only rewritten
+// when they change.
+export type StoredSession = {
+  file: File | null
+  // Set once the audio has been edited, until then the file is decoded again
+  editedAudio: StoredAudio | null
+  // How the edited audio came from the file, for saving it as a project
+  edits: EditOperation[]
+  effectChain: EffectSlot[]
+  regions: EffectRegion[]
+  volume: number
+  isMuted: boolean
+  playhead: number
+  effectsTab: string
+}
+
+const SESSION_KEYS: (keyof StoredSession)[] = [
+  "file",
+  "editedAudio",
+  "edits",
+  "effectChain",
+  "regions",
+  "volume",
+  "isMuted",
+  "playhead",
+  "effectsTab",
+]
+
+// Fired after the stored session is cleared, for components that keep their own part of it
+export const SESSION_RESET_EVENT = "musico-session-reset"
+
+export async function loadSession() {
+  const requests = new Map<keyof StoredSession, IDBRequest>()
+  await runTransaction(SESSION_STORE, "readonly", (store) => {
+    SESSION_KEYS.forEach((key) => requests.set(key, store.get(key)))
+  })
+
+  const session: Partial<StoredSession> = {}
+  requests.forEach((request, key) => {
+    if (request.result !== undefined) Object.assign(session, { [key]: request.result })
+  })
+  return session
+}
+
+export async function saveSession(fields: Partial<StoredSession>) {
+  await runTransaction(SESSION_STORE, "readwrite", (store) => {
+    Object.entries(fields).forEach(([key, value]) => store.put(value, key))
+  })
+}
+
+export async function clearSession() {
+  await runTransaction(SESSION_STORE, "readwrite", (store) => store.clear())
+  window.dispatchEvent(new Event(SESSION_RESET_EVENT))
+}
+
+export function bufferToStoredAudio(buffer: AudioBuffer): StoredAudio {
+  return {
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice()),
+  }
+}
+
+export function storedAudioToBuffer(audio: StoredAudio) {
+  const buffer = new AudioBuffer({
+    length: Math.max(1, audio.channels[0]?.length ?? 0),
+    numberOfChannels: Math.max(1, audio.channels.length),
+    sampleRate: audio.sampleRate,
+  })
+  audio.channels.forEach((data, channel) => buffer.copyToChannel(data, channel))
+  return buffer
+}
+
+export function isQuotaError(error: unknown) {
+  return error instanceof DOMException && error.name === "QuotaExceededError"
+}
+
+// Asks the browser not to evict the session under storage pressure. It may say no.
+export async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) return false
+  return navigator.storage.persisted().then((persisted) => persisted || navigator.storage.persist())
+}
+
+// How much the origin stores and may store, where the browser reports it
+export async function getStorageUsage() {
+  if (!navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
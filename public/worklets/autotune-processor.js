@@ -0,0 +1,228 @@
+// Pitch correction. The pitch is tracked with YIN on a decimated mono mix, snapped to the nearest
+// note of the chosen key and scale, and the voice is moved there with pitch-synchronous overlap-add
+// (PSOLA): two-period grains cut at the detected period and laid down at the corrected one.
+
+// Semitones above the key that belong to each scale, in the order of the effect's scale options
+const SCALES = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], // chromatic
+  [0, 2, 4, 5, 7, 9, 11], // major
+  [0, 2, 3, 5, 7, 8, 10], // natural minor
+  [0, 2, 3, 5, 7, 8, 11], // harmonic minor
+  [0, 2, 3, 5, 7, 9, 10], // dorian
+  [0, 2, 4, 5, 7, 9, 10], // mixolydian
+  [0, 2, 4, 7, 9], // major pentatonic
+  [0, 3, 5, 7, 10], // minor pentatonic
+  [0, 3, 5, 6, 7, 10], // blues
+]
+
+const MIN_FREQUENCY = 70
+const MAX_FREQUENCY = 1000
+// Samples between pitch estimates
+const HOP = 256
+// Length of the YIN integration window, in decimated samples
+const YIN_WINDOW = 512
+const YIN_THRESHOLD = 0.15
+// Above this, the best dip is too shallow to be a pitch
+const VOICING_LIMIT = 0.35
+// Quieter windows are treated as unvoiced
+const SILENCE_RMS = 0.005
+// Grain spacing while nothing is voiced, which passes the input through unchanged
+const UNVOICED_PERIOD_SECONDS = 0.01
+const RING_SIZE = 16384
+const RING_MASK = RING_SIZE - 1
+
+class AutotuneProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "key", defaultValue: 0, minValue: 0, maxValue: 11, automationRate: "k-rate" },
+      { name: "scale", defaultValue: 0, minValue: 0, maxValue: SCALES.length - 1, automationRate: "k-rate" },
+      { name: "retune", defaultValue: 50, minValue: 0, maxValue: 400, automationRate: "k-rate" },
+      { name: "humanize", defaultValue: 0, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.decimation = Math.max(1, Math.round(sampleRate / 22050))
+    this.detectionRate = sampleRate / this.decimation
+    this.minLag = Math.floor(this.detectionRate / MAX_FREQUENCY)
+    this.maxLag = Math.ceil(this.detectionRate / MIN_FREQUENCY)
+    this.detection = new Float32Array(YIN_WINDOW + this.maxLag + 1)
+    this.difference = new Float32Array(this.maxLag + 1)
+    this.decimationSum = 0
+    this.decimationCount = 0
+
+    // Output trails the input by enough for a grain of the longest period to be cut whole
+    const maxPeriod = Math.ceil(sampleRate / MIN_FREQUENCY)
+    this.latency = 2 * maxPeriod + 1
+    this.unvoicedPeriod = Math.round(sampleRate * UNVOICED_PERIOD_SECONDS)
+
+    this.time = 0
+    this.channels = []
+    this.period = this.unvoicedPeriod
+    this.voiced = false
+    this.correction = 0
+    this.ratio = 1
+    this.synthesisMark = this.latency
+    this.analysisMark = 0
+  }
+
+  ensureChannels(count) {
+    while (this.channels.length < count) {
+      this.channels.push({ input: new Float32Array(RING_SIZE), output: new Float32Array(RING_SIZE) })
+    }
+  }
+
+  // YIN: cumulative mean normalized difference, first dip under the threshold, refined by a parabola
+  detectPitch() {
+    const data = this.detection
+    const difference = this.difference
+
+    let energy = 0
+    for (let i = 0; i < YIN_WINDOW; i++) energy += data[i] * data[i]
+    if (Math.sqrt(energy / YIN_WINDOW) < SILENCE_RMS) return 0
+
+    difference[0] = 1
+    let runningSum = 0
+    for (let lag = 1; lag <= this.maxLag; lag++) {
+      let sum = 0
+      for (let i = 0; i < YIN_WINDOW; i++) {
+        const delta = data[i] - data[i + lag]
+        sum += delta * delta
+      }
+      runningSum += sum
+      difference[lag] = runningSum > 0 ? (sum * lag) / runningSum : 1
+    }
+
+    let best = -1
+    for (let lag = Math.max(2, this.minLag); lag < this.maxLag; lag++) {
+      if (difference[lag] < YIN_THRESHOLD) {
+        while (lag + 1 < this.maxLag && difference[lag + 1] < difference[lag]) lag++
+        best = lag
+        break
+      }
+    }
+    if (best < 0) {
+      // No dip under the threshold, fall back to the global minimum if it's deep enough
+      for (let lag = Math.max(2, this.minLag); lag < this.maxLag; lag++) {
+        if (best < 0 || difference[lag] < difference[best]) best = lag
+      }
+      if (difference[best] > VOICING_LIMIT) return 0
+    }
+
+    const previous = difference[best - 1]
+    const next = difference[best + 1]
+    const curvature = previous + next - 2 * difference[best]
+    const lag = curvature > 0 ? best + (previous - next) / (2 * curvature) : best
+    return this.detectionRate / lag
+  }
+
+  // Nearest note of the scale, in fractional MIDI notes
+  snapToScale(note, key, scale) {
+    const degrees = SCALES[scale] ?? SCALES[0]
+    let target = Math.round(note)
+    let distance = Infinity
+    for (let candidate = Math.floor(note) - 6; candidate <= Math.ceil(note) + 6; candidate++) {
+      const degree = (((candidate - key) % 12) + 12) % 12
+      if (degrees.includes(degree) && Math.abs(candidate - note) < distance) {
+        distance = Math.abs(candidate - note)
+        target = candidate
+      }
+    }
+    return target
+  }
+
+  updatePitch(parameters) {
+    const frequency = this.detectPitch()
+    const key = Math.round(parameters.key[0])
+    const scale = Math.round(parameters.scale[0])
+    const retune = parameters.retune[0] / 1000
+    const humanize = parameters.humanize[0]
+
+    let desired = 0
+    this.voiced = frequency > 0
+    if (this.voiced) {
+      const note = 69 + 12 * Math.log2(frequency / 440)
+      desired = this.snapToScale(note, key, scale) - note
+      // Humanize leaves small drift alone, which keeps vibrato and scoops intact
+      if (Math.abs(desired) < humanize * 0.5) desired = 0
+      this.period = sampleRate / frequency
+    } else {
+      this.period = this.unvoicedPeriod
+    }
+
+    // Retune speed is how long the correction takes to catch up, zero snaps at once
+    const step = retune > 0 ? 1 - Math.exp(-HOP / sampleRate / retune) : 1
+    this.correction += (desired - this.correction) * step
+    this.ratio = this.voiced ? Math.pow(2, this.correction / 12) : 1
+  }
+
+  // Cuts a two-period grain around the next analysis mark and adds it centred on the synthesis mark
+  placeGrain() {
+    const period = Math.max(2, Math.round(this.period))
+    const spacing = period / this.ratio
+    const center = this.synthesisMark - this.latency
+
+    if (this.voiced) {
+      // Marks step a whole period at a time so consecutive grains line up in phase. Raising the
+      // pitch reuses marks, lowering it skips them.
+      while (this.analysisMark + period / 2 < center) this.analysisMark += period
+      if (this.analysisMark - center > period) this.analysisMark = center
+    } else {
+      this.analysisMark = center
+    }
+
+    // Hann grains of two periods add up to period / spacing, so each is scaled back to unity
+    const gain = spacing / period
+    const start = Math.round(this.synthesisMark) - period
+    const source = Math.round(this.analysisMark) - period
+    for (const channel of this.channels) {
+      for (let i = 0; i < 2 * period; i++) {
+        const window = 0.5 - 0.5 * Math.cos((Math.PI * i) / period)
+        channel.output[(start + i) & RING_MASK] += channel.input[(source + i) & RING_MASK] * window * gain
+      }
+    }
+
+    this.synthesisMark += spacing
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    this.ensureChannels(output.length)
+
+    for (let i = 0; i < output[0].length; i++) {
+      const time = this.time
+
+      let mono = 0
+      for (let channel = 0; channel < output.length; channel++) {
+        const sample = input[channel]?.[i] ?? 0
+        this.channels[channel].input[time & RING_MASK] = sample
+        mono += sample
+      }
+
+      this.decimationSum += mono / output.length
+      if (++this.decimationCount === this.decimation) {
+        this.detection.copyWithin(0, 1)
+        this.detection[this.detection.length - 1] = this.decimationSum / this.decimation
+        this.decimationSum = 0
+        this.decimationCount = 0
+      }
+      if (time % HOP === 0) this.updatePitch(parameters)
+
+      // Grains are laid down as soon as their first sample is due
+      while (this.synthesisMark - Math.max(2, Math.round(this.period)) <= time) this.placeGrain()
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const ring = this.channels[channel].output
+        output[channel][i] = ring[time & RING_MASK]
+        ring[time & RING_MASK] = 0
+      }
+      this.time++
+    }
+
+    return true
+  }
+}
+
+registerProcessor("autotune-processor", AutotuneProcessor)
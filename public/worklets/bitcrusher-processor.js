@@ -0,0 +1,47 @@
+// Reduces bit depth and holds every nth sample to fake a lower sample rate
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "bitDepth", defaultValue: 4, minValue: 1, maxValue: 16, automationRate: "k-rate" },
+      { name: "downsample", defaultValue: 4, minValue: 1, maxValue: 16, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.held = []
+    this.holdCounter = []
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const normalizationFactor = Math.pow(2, Math.round(parameters.bitDepth[0]) - 1)
+    const downsample = Math.max(1, Math.round(parameters.downsample[0]))
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inputData = input[channel]
+      const outputData = output[channel]
+      if (!inputData) continue
+
+      let held = this.held[channel] ?? 0
+      let counter = this.holdCounter[channel] ?? 0
+
+      for (let i = 0; i < outputData.length; i++) {
+        // The hold carries across render quanta so any downsample factor works
+        if (counter === 0) {
+          held = Math.round(inputData[i] * normalizationFactor) / normalizationFactor
+        }
+        outputData[i] = held
+        counter = (counter + 1) % downsample
+      }
+
+      this.held[channel] = held
+      this.holdCounter[channel] = counter
+    }
+
+    return true
+  }
+}
+
+registerProcessor("bitcrusher-processor", BitcrusherProcessor)
@@ -0,0 +1,26 @@
+// Randomly drops samples to imitate a flaky wireless link
+class DropoutProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "dropouts", defaultValue: 0.01, minValue: 0, maxValue: 1, automationRate: "k-rate" }]
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const dropouts = parameters.dropouts[0]
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inputData = input[channel]
+      const outputData = output[channel]
+      if (!inputData) continue
+
+      for (let i = 0; i < outputData.length; i++) {
+        outputData[i] = Math.random() < dropouts ? 0 : inputData[i]
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor("dropout-processor", DropoutProcessor)
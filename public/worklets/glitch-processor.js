@@ -0,0 +1,65 @@
+// Occasionally replaces stretches of audio with short repeats of recent samples
+const SEGMENT_LENGTH = 4096
+
+class GlitchProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "probability", defaultValue: 0.05, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+      { name: "intensity", defaultValue: 0.2, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.history = []
+    this.writeIndex = 0
+    this.segmentPosition = 0
+    this.glitchCounter = 0
+    this.repeat = null
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const probability = parameters.probability[0]
+    const intensity = parameters.intensity[0]
+
+    for (let channel = 0; channel < output.length; channel++) {
+      if (!this.history[channel]) this.history[channel] = new Float32Array(SEGMENT_LENGTH)
+    }
+
+    const blockLength = output[0] ? output[0].length : 128
+    for (let i = 0; i < blockLength; i++) {
+      // Glitches are decided per segment, matching the old 4096-sample script processor
+      if (this.segmentPosition === 0) {
+        if (this.glitchCounter > 0) this.glitchCounter--
+        if (Math.random() < probability) {
+          this.glitchCounter = Math.floor(Math.random() * 10) + 1
+        }
+      }
+      this.segmentPosition = (this.segmentPosition + 1) % SEGMENT_LENGTH
+
+      if (this.glitchCounter > 0 && !this.repeat && Math.random() < intensity) {
+        const length = Math.floor(Math.random() * 20) + 1
+        this.repeat = { start: Math.floor(Math.random() * (SEGMENT_LENGTH - length)), length, offset: 0 }
+      }
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const inputData = input[channel]
+        const sample = inputData ? inputData[i] : 0
+        const history = this.history[channel]
+        history[this.writeIndex] = sample
+        output[channel][i] = this.repeat ? history[(this.repeat.start + this.repeat.offset) % SEGMENT_LENGTH] : sample
+      }
+
+      this.writeIndex = (this.writeIndex + 1) % SEGMENT_LENGTH
+      if (this.repeat && ++this.repeat.offset >= this.repeat.length) {
+        this.repeat = null
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor("glitch-processor", GlitchProcessor)
@@ -0,0 +1,72 @@
+// Records a grain, then loops it from random offsets before recording a fresh one
+class GranularProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "grainSize", defaultValue: 100, minValue: 20, maxValue: 500, automationRate: "k-rate" },
+      { name: "jitter", defaultValue: 0.1, minValue: 0, maxValue: 0.5, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.grainLength = 0
+    this.channels = []
+  }
+
+  // Grain state is kept per channel so stereo input stays stereo
+  resetGrains(grainLength, channelCount) {
+    this.grainLength = grainLength
+    this.channels = Array.from({ length: channelCount }, () => ({
+      buffer: new Float32Array(grainLength),
+      isRecording: true,
+      recordingPointer: 0,
+      grainPointer: 0,
+    }))
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const grainLength = Math.max(1, Math.floor((sampleRate * parameters.grainSize[0]) / 1000))
+    const jitter = parameters.jitter[0]
+
+    if (grainLength !== this.grainLength || this.channels.length !== output.length) {
+      this.resetGrains(grainLength, output.length)
+    }
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inputData = input[channel]
+      const outputData = output[channel]
+      const grain = this.channels[channel]
+      if (!inputData) continue
+
+      for (let i = 0; i < outputData.length; i++) {
+        if (grain.isRecording) {
+          grain.buffer[grain.recordingPointer++] = inputData[i]
+          outputData[i] = inputData[i]
+
+          if (grain.recordingPointer >= grainLength) {
+            grain.isRecording = false
+            grain.recordingPointer = 0
+            grain.grainPointer = 0
+          }
+          continue
+        }
+
+        outputData[i] = grain.buffer[grain.grainPointer++]
+
+        if (grain.grainPointer >= grainLength) {
+          // Restart the grain from a random offset, occasionally going back to recording
+          grain.grainPointer = Math.floor(Math.random() * grainLength * jitter)
+          if (Math.random() < 0.1) {
+            grain.isRecording = true
+          }
+        }
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor("granular-processor", GranularProcessor)
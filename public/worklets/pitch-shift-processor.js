@@ -0,0 +1,212 @@
+// Phase vocoder pitch shifter. Each frame's spectral peaks are measured for their true frequency,
+// moved up or down by the shift ratio and resynthesized with accumulated phase, so the pitch
+// changes while the timing stays where it was.
+
+const FRAME_SIZE = 2048
+const OVERLAP = 4
+const HOP = FRAME_SIZE / OVERLAP
+const BINS = FRAME_SIZE / 2 + 1
+// Output lags the input by one frame minus one hop, the time it takes to fill a frame
+const LATENCY = FRAME_SIZE - HOP
+// Expected phase advance of bin 1 over one hop
+const EXPECTED_ADVANCE = (2 * Math.PI * HOP) / FRAME_SIZE
+// Hann windows on both analysis and synthesis overlap to this constant at OVERLAP = 4
+const OVERLAP_GAIN = 1.5
+// Share of a frame's spectrum that has to be new for it to count as an attack
+const ONSET_THRESHOLD = 0.3
+
+const hann = new Float32Array(FRAME_SIZE)
+for (let i = 0; i < FRAME_SIZE; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE)
+
+const bitReversed = new Uint32Array(FRAME_SIZE)
+for (let i = 0, bits = Math.log2(FRAME_SIZE); i < FRAME_SIZE; i++) {
+  let reversed = 0
+  for (let bit = 0; bit < bits; bit++) reversed = (reversed << 1) | ((i >> bit) & 1)
+  bitReversed[i] = reversed
+}
+
+const cosTable = new Float32Array(FRAME_SIZE / 2)
+const sinTable = new Float32Array(FRAME_SIZE / 2)
+for (let i = 0; i < FRAME_SIZE / 2; i++) {
+  cosTable[i] = Math.cos((2 * Math.PI * i) / FRAME_SIZE)
+  sinTable[i] = Math.sin((2 * Math.PI * i) / FRAME_SIZE)
+}
+
+// In-place radix-2 FFT, inverse when sign is 1. The inverse isn't scaled.
+function fft(real, imag, sign) {
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const j = bitReversed[i]
+    if (j > i) {
+      let swap = real[i]
+      real[i] = real[j]
+      real[j] = swap
+      swap = imag[i]
+      imag[i] = imag[j]
+      imag[j] = swap
+    }
+  }
+
+  for (let size = 2; size <= FRAME_SIZE; size *= 2) {
+    const half = size / 2
+    const step = FRAME_SIZE / size
+    for (let start = 0; start < FRAME_SIZE; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = cosTable[k * step]
+        const sin = -sign * sinTable[k * step]
+        const a = start + k
+        const b = a + half
+        const re = real[b] * cos + imag[b] * sin
+        const im = imag[b] * cos - real[b] * sin
+        real[b] = real[a] - re
+        imag[b] = imag[a] - im
+        real[a] += re
+        imag[a] += im
+      }
+    }
+  }
+}
+
+const wrapPhase = (phase) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI))
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "semitones", defaultValue: 0, minValue: -24, maxValue: 24, automationRate: "k-rate" },
+      { name: "cents", defaultValue: 0, minValue: -100, maxValue: 100, automationRate: "k-rate" },
+      { name: "transients", defaultValue: 0, minValue: 0, maxValue: 1, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.channels = []
+    this.position = LATENCY
+    this.real = new Float32Array(FRAME_SIZE)
+    this.imag = new Float32Array(FRAME_SIZE)
+    this.magnitude = new Float32Array(BINS)
+    this.phase = new Float32Array(BINS)
+    this.shiftedReal = new Float32Array(BINS)
+    this.shiftedImag = new Float32Array(BINS)
+  }
+
+  ensureChannels(count) {
+    while (this.channels.length < count) {
+      this.channels.push({
+        input: new Float32Array(FRAME_SIZE),
+        output: new Float32Array(HOP),
+        accumulator: new Float32Array(FRAME_SIZE),
+        lastPhase: new Float32Array(BINS),
+        lastMagnitude: new Float32Array(BINS),
+        phaseSum: new Float32Array(BINS),
+        attack: false,
+      })
+    }
+  }
+
+  processFrame(channel, ratio, transients) {
+    const { real, imag, magnitude, phase, shiftedReal, shiftedImag } = this
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      real[i] = channel.input[i] * hann[i]
+      imag[i] = 0
+    }
+    fft(real, imag, -1)
+
+    let rise = 0
+    let total = 0
+    for (let k = 0; k < BINS; k++) {
+      magnitude[k] = Math.hypot(real[k], imag[k])
+      phase[k] = Math.atan2(imag[k], real[k])
+      rise += Math.max(0, magnitude[k] - channel.lastMagnitude[k])
+      total += magnitude[k]
+    }
+
+    // Accumulated phases smear attacks across the frame. On the first frame of an attack the
+    // partials that just appeared start over from the input's own phase, which keeps drums and
+    // plucks sharp. Sustained partials carry on, resetting them would dent the notes underneath.
+    const attack = total > 0 && rise / total > ONSET_THRESHOLD
+    const resetPhase = transients && attack && !channel.attack
+    channel.attack = attack
+
+    // Each spectral peak moves together with the bins around it, up to halfway to the next peak,
+    // which keeps the shape of every partial intact. The peak's phase advances at its shifted
+    // frequency and the bins around it keep their phase relative to the peak.
+    shiftedReal.fill(0)
+    shiftedImag.fill(0)
+    const isPeak = (k) => magnitude[k] >= magnitude[k + 1] && (k === 0 || magnitude[k] > magnitude[k - 1])
+    let regionStart = 0
+    for (let peak = 0; peak < BINS; ) {
+      while (peak < BINS - 1 && !isPeak(peak)) peak++
+      let next = peak + 1
+      while (next < BINS - 1 && !isPeak(next)) next++
+      const regionEnd = next < BINS - 1 ? Math.ceil((peak + next) / 2) : BINS
+
+      // True frequency of the peak, in bins, from how far its phase moved since the last frame
+      const deviation = wrapPhase(phase[peak] - channel.lastPhase[peak] - peak * EXPECTED_ADVANCE)
+      const frequency = (peak + (deviation * OVERLAP) / (2 * Math.PI)) * ratio
+      const target = Math.round(peak * ratio)
+      if (target < BINS) {
+        channel.phaseSum[target] = resetPhase && magnitude[peak] > 2 * channel.lastMagnitude[peak]
+          ? phase[peak]
+          : wrapPhase(channel.phaseSum[target] + (frequency * 2 * Math.PI) / OVERLAP)
+        for (let k = regionStart; k < regionEnd; k++) {
+          const shifted = k + target - peak
+          if (shifted < 0 || shifted >= BINS) continue
+          const shiftedPhase = channel.phaseSum[target] + phase[k] - phase[peak]
+          shiftedReal[shifted] += magnitude[k] * Math.cos(shiftedPhase)
+          shiftedImag[shifted] += magnitude[k] * Math.sin(shiftedPhase)
+        }
+      }
+
+      regionStart = regionEnd
+      peak = next
+    }
+    channel.lastPhase.set(phase)
+    channel.lastMagnitude.set(magnitude)
+
+    real.set(shiftedReal, 0)
+    imag.set(shiftedImag, 0)
+    // The upper half mirrors the lower one so the inverse comes out real
+    for (let k = BINS; k < FRAME_SIZE; k++) {
+      real[k] = real[FRAME_SIZE - k]
+      imag[k] = -imag[FRAME_SIZE - k]
+    }
+    fft(real, imag, 1)
+
+    const accumulator = channel.accumulator
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      accumulator[i] += (real[i] * hann[i]) / (FRAME_SIZE * OVERLAP_GAIN)
+    }
+    channel.output.set(accumulator.subarray(0, HOP))
+    accumulator.copyWithin(0, HOP)
+    accumulator.fill(0, FRAME_SIZE - HOP)
+    channel.input.copyWithin(0, HOP)
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const ratio = Math.pow(2, (parameters.semitones[0] + parameters.cents[0] / 100) / 12)
+    const transients = parameters.transients[0] >= 0.5
+    this.ensureChannels(output.length)
+
+    for (let i = 0; i < output[0].length; i++) {
+      for (let channel = 0; channel < output.length; channel++) {
+        const state = this.channels[channel]
+        state.input[this.position] = input[channel]?.[i] ?? 0
+        output[channel][i] = state.output[this.position - LATENCY]
+      }
+
+      if (++this.position === FRAME_SIZE) {
+        this.position = LATENCY
+        for (let channel = 0; channel < output.length; channel++) {
+          this.processFrame(this.channels[channel], ratio, transients)
+        }
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor("pitch-shift-processor", PitchShiftProcessor)
@@ -0,0 +1,64 @@
+// Freezes the last segment of audio and repeats a sample-held version of it for a while
+const SEGMENT_LENGTH = 4096
+
+class StutterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "probability", defaultValue: 0.1, minValue: 0, maxValue: 1, automationRate: "k-rate" }]
+  }
+
+  constructor() {
+    super()
+    this.history = []
+    this.frozen = []
+    this.segmentPosition = 0
+    this.stutterCounter = 0
+    this.stutterRate = 4
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const probability = parameters.probability[0]
+
+    for (let channel = 0; channel < output.length; channel++) {
+      if (!this.history[channel]) {
+        this.history[channel] = new Float32Array(SEGMENT_LENGTH)
+        this.frozen[channel] = new Float32Array(SEGMENT_LENGTH)
+      }
+    }
+
+    const blockLength = output[0] ? output[0].length : 128
+    for (let i = 0; i < blockLength; i++) {
+      const position = this.segmentPosition
+
+      if (position === 0) {
+        if (this.stutterCounter > 0) {
+          this.stutterCounter--
+        } else if (Math.random() < probability) {
+          // Start a stutter on the segment that just finished
+          this.stutterCounter = Math.floor(Math.random() * 20) + 10
+          this.stutterRate = Math.pow(2, Math.floor(Math.random() * 4) + 2) // 4, 8, 16, or 32
+          for (let channel = 0; channel < output.length; channel++) {
+            this.frozen[channel].set(this.history[channel])
+          }
+        }
+      }
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const inputData = input[channel]
+        const sample = inputData ? inputData[i] : 0
+        this.history[channel][position] = sample
+        output[channel][i] =
+          this.stutterCounter > 0
+            ? this.frozen[channel][Math.floor(position / this.stutterRate) * this.stutterRate]
+            : sample
+      }
+
+      this.segmentPosition = (position + 1) % SEGMENT_LENGTH
+    }
+
+    return true
+  }
+}
+
+registerProcessor("stutter-processor", StutterProcessor)
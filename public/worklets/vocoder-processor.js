@@ -0,0 +1,182 @@
+// Channel vocoder. The modulator (input 0) is split into bands whose envelopes are followed and
+// imposed on the same bands of the carrier, which is either synthesized here or fed in on input 1.
+// Output is mono, a vocoder has no stereo image of its own.
+
+// Same order as the carrier options of the vocoder effect
+const SAWTOOTH = 0
+const SQUARE = 1
+const NOISE = 2
+const FILE = 3
+
+const LOWEST_BAND = 80
+const HIGHEST_BAND = 12000
+const ATTACK_SECONDS = 0.005
+const RELEASE_SECONDS = 0.03
+// The carrier's bands are levelled out before the modulator's envelopes go on, so any carrier
+// gives every band the same footing. This keeps near-silent carrier bands from being raised.
+const CARRIER_SMOOTHING_SECONDS = 0.05
+const CARRIER_FLOOR = 0.01
+const OUTPUT_GAIN = 1.5
+
+// Band-pass biquad coefficients with unity peak gain, b2 being -b0. Each band's filter runs twice
+// for steeper skirts.
+function tuneBandPass(filters, band, frequency, q) {
+  const omega = (2 * Math.PI * Math.min(frequency, sampleRate * 0.45)) / sampleRate
+  const alpha = Math.sin(omega) / (2 * q)
+  const a0 = 1 + alpha
+  filters.b0[band] = alpha / a0
+  filters.a1[band] = (-2 * Math.cos(omega)) / a0
+  filters.a2[band] = (1 - alpha) / a0
+}
+
+// One filter per band, with the coefficients and the state of both passes in flat arrays, which
+// keeps 64 bands affordable. Retuning keeps the state, so bands can move while audio runs.
+function createFilterBank(count) {
+  return {
+    b0: new Float64Array(count),
+    a1: new Float64Array(count),
+    a2: new Float64Array(count),
+    // x1, x2, y1, y2 of the first pass, then of the second, for each band
+    state: new Float64Array(count * 8),
+  }
+}
+
+function runBandPass(filters, band, sample) {
+  const { state } = filters
+  const b0 = filters.b0[band]
+  const a1 = filters.a1[band]
+  const a2 = filters.a2[band]
+  const s = band * 8
+
+  const first = b0 * (sample - state[s + 1]) - a1 * state[s + 2] - a2 * state[s + 3]
+  state[s + 1] = state[s]
+  state[s] = sample
+  state[s + 3] = state[s + 2]
+  state[s + 2] = first
+
+  const second = b0 * (first - state[s + 5]) - a1 * state[s + 6] - a2 * state[s + 7]
+  state[s + 5] = state[s + 4]
+  state[s + 4] = first
+  state[s + 7] = state[s + 6]
+  state[s + 6] = second
+  return second
+}
+
+// PolyBLEP residual, which rounds off the steps of the synthesized carriers to keep aliasing down
+function polyBlep(phase, increment) {
+  if (phase < increment) {
+    const t = phase / increment
+    return t + t - t * t - 1
+  }
+  if (phase > 1 - increment) {
+    const t = (phase - 1) / increment
+    return t * t + t + t + 1
+  }
+  return 0
+}
+
+class VocoderProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: "carrier", defaultValue: SAWTOOTH, minValue: 0, maxValue: FILE, automationRate: "k-rate" },
+      { name: "pitch", defaultValue: 110, minValue: 20, maxValue: 2000, automationRate: "k-rate" },
+      { name: "bands", defaultValue: 24, minValue: 8, maxValue: 64, automationRate: "k-rate" },
+      { name: "formant", defaultValue: 0, minValue: -12, maxValue: 12, automationRate: "k-rate" },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.bandCount = 0
+    this.formant = 0
+    this.phase = 0
+    this.attack = 1 - Math.exp(-1 / (sampleRate * ATTACK_SECONDS))
+    this.release = 1 - Math.exp(-1 / (sampleRate * RELEASE_SECONDS))
+    this.carrierSmoothing = 1 - Math.exp(-1 / (sampleRate * CARRIER_SMOOTHING_SECONDS))
+  }
+
+  // Bands are spaced evenly in pitch, each as wide as the gap to its neighbours
+  buildBands(count) {
+    this.spacing = Math.pow(HIGHEST_BAND / LOWEST_BAND, 1 / (count - 1))
+    this.q = Math.sqrt(this.spacing) / (this.spacing - 1)
+    this.frequencies = Float64Array.from({ length: count }, (_, band) => LOWEST_BAND * Math.pow(this.spacing, band))
+    this.modulatorFilters = createFilterBank(count)
+    this.carrierFilters = createFilterBank(count)
+    this.envelopes = new Float64Array(count)
+    this.carrierLevels = new Float64Array(count)
+    for (let band = 0; band < count; band++) {
+      tuneBandPass(this.modulatorFilters, band, this.frequencies[band], this.q)
+      tuneBandPass(this.carrierFilters, band, this.frequencies[band], this.q)
+    }
+    this.bandCount = count
+    this.formant = 0
+  }
+
+  // The carrier's bands move with the formant shift while the modulator's stay put, so the
+  // voice's formants land higher or lower in the carrier
+  shiftFormants(formant) {
+    const shift = Math.pow(2, formant / 12)
+    for (let band = 0; band < this.bandCount; band++) {
+      tuneBandPass(this.carrierFilters, band, this.frequencies[band] * shift, this.q)
+    }
+    this.formant = formant
+  }
+
+  nextCarrierSample(type, increment) {
+    if (type === NOISE) return Math.random() * 2 - 1
+
+    this.phase += increment
+    if (this.phase >= 1) this.phase -= 1
+    const saw = 2 * this.phase - 1 - polyBlep(this.phase, increment)
+    if (type !== SQUARE) return saw
+
+    const shifted = (this.phase + 0.5) % 1
+    return (this.phase < 0.5 ? 1 : -1) + polyBlep(this.phase, increment) - polyBlep(shifted, increment)
+  }
+
+  process(inputs, outputs, parameters) {
+    const modulator = inputs[0]
+    const carrierInput = inputs[1]
+    const output = outputs[0]
+    const bandCount = Math.round(parameters.bands[0])
+    const formant = parameters.formant[0]
+    // A file carrier with nothing connected falls back to the sawtooth
+    let type = Math.round(parameters.carrier[0])
+    if (type === FILE && carrierInput.length === 0) type = SAWTOOTH
+    const increment = parameters.pitch[0] / sampleRate
+
+    if (bandCount !== this.bandCount) this.buildBands(bandCount)
+    if (formant !== this.formant) this.shiftFormants(formant)
+
+    for (let i = 0; i < output[0].length; i++) {
+      let modulatorSample = 0
+      for (const channel of modulator) modulatorSample += channel[i]
+      modulatorSample /= Math.max(1, modulator.length)
+
+      let carrierSample = 0
+      if (type === FILE) {
+        for (const channel of carrierInput) carrierSample += channel[i]
+        carrierSample /= carrierInput.length
+      } else {
+        carrierSample = this.nextCarrierSample(type, increment)
+      }
+
+      const { envelopes, carrierLevels } = this
+      let sample = 0
+      for (let band = 0; band < this.bandCount; band++) {
+        const level = Math.abs(runBandPass(this.modulatorFilters, band, modulatorSample))
+        envelopes[band] += (level - envelopes[band]) * (level > envelopes[band] ? this.attack : this.release)
+        const carrier = runBandPass(this.carrierFilters, band, carrierSample)
+        carrierLevels[band] += (Math.abs(carrier) - carrierLevels[band]) * this.carrierSmoothing
+        sample += (carrier / (carrierLevels[band] + CARRIER_FLOOR)) * envelopes[band]
+      }
+
+      sample *= OUTPUT_GAIN
+      for (const channel of output) channel[i] = sample
+    }
+
+    return true
+  }
+}
+
+registerProcessor("vocoder-processor", VocoderProcessor)
@@ -0,0 +1,12 @@
+// libopus compiled to WebAssembly, the package ships without type declarations
+declare module "@evan/wasm/target/opus/deno.js" {
+  export class Encoder {
+    constructor(options?: { channels?: 1 | 2; sample_rate?: number; application?: "voip" | "audio" | "restricted_lowdelay" })
+    bitrate: number
+    // Samples the encoder delays its output by, which decoders skip
+    readonly lookahead: number
+    // Takes one frame of interleaved 16-bit PCM and returns one Opus packet
+    encode(pcm: Int16Array): Uint8Array
+    drop(): void
+  }
+}